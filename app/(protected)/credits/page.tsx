@@ -0,0 +1,229 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { LoadingPage } from '@/components/ui/loading';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import Link from 'next/link';
+import {
+  formatPaymentAmount,
+  CREDIT_HISTORY_LABELS,
+  CREDIT_HISTORY_TYPES,
+  CreditHistoryEntry,
+  CreditHistoryType,
+} from '@/lib/credit-history';
+
+const STATUS_LABELS: Record<string, { label: string; color: string }> = {
+  held: { label: 'In progress', color: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  committed: { label: 'Charged', color: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300' },
+  released: { label: 'Refunded', color: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  succeeded: { label: 'Paid', color: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+};
+
+function formatCredits(entry: CreditHistoryEntry): string {
+  if (entry.credits === null) return entry.type === 'reset' ? 'Unlimited' : '—';
+  return entry.credits > 0 ? `+${entry.credits}` : String(entry.credits);
+}
+
+export default function CreditHistoryPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [entries, setEntries] = useState<CreditHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Set while older entries are left to load
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<{ from: string; to: string; type: CreditHistoryType | '' }>({
+    from: '',
+    to: '',
+    type: '',
+  });
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchHistory();
+    }
+  }, [status, filters]);
+
+  // Only the filters that are set, so the API applies its defaults for the rest
+  function historyQuery(format?: 'csv', cursor?: string): string {
+    const params = new URLSearchParams();
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.type) params.set('type', filters.type);
+    if (format) params.set('format', format);
+    if (cursor) params.set('cursor', cursor);
+    return params.toString();
+  }
+
+  // The first page, or the page after `cursor` appended to what is shown
+  async function fetchHistory(cursor?: string) {
+    try {
+      const response = await fetch(`/api/user/credit-history?${historyQuery(undefined, cursor)}`);
+      const data = await response.json();
+      if (response.ok) {
+        setEntries((prev) => (cursor ? [...prev, ...(data.data || [])] : data.data || []));
+        setNextCursor(data.nextCursor ?? null);
+      } else {
+        toast.error('Failed to fetch credit history', { description: data.error });
+      }
+    } catch (error) {
+      toast.error('Error fetching credit history');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchHistory(nextCursor);
+    setLoadingMore(false);
+  }
+
+  if (status === 'loading' || loading) {
+    return <LoadingPage />;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">Credits & Billing</h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              Every credit spent, refunded or added, and every payment
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/pricing">
+              <Button variant="secondary">Buy Credits</Button>
+            </Link>
+            <a href={`/api/user/credit-history?${historyQuery('csv')}`}>
+              <Button className="bg-blue-600 hover:bg-blue-700 text-white">Download CSV</Button>
+            </a>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-4 items-end mb-6">
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+              className="input mt-1"
+            />
+          </label>
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+              className="input mt-1"
+            />
+          </label>
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            Type
+            <select
+              value={filters.type}
+              onChange={(e) => setFilters((prev) => ({ ...prev, type: e.target.value as CreditHistoryType | '' }))}
+              className="input mt-1"
+            >
+              <option value="">All</option>
+              {CREDIT_HISTORY_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {CREDIT_HISTORY_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {(filters.from || filters.to || filters.type) && (
+            <Button variant="secondary" size="sm" onClick={() => setFilters({ from: '', to: '', type: '' })}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-16">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">No credit activity</h2>
+            <p className="text-slate-600 dark:text-slate-400">Nothing matches these filters yet</p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 dark:border-slate-700 text-left text-slate-600 dark:text-slate-400">
+                  <th className="py-3 px-4">Date</th>
+                  <th className="py-3 px-4">Type</th>
+                  <th className="py-3 px-4">Details</th>
+                  <th className="py-3 px-4 text-right">Credits</th>
+                  <th className="py-3 px-4 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const badge = entry.status ? STATUS_LABELS[entry.status] : undefined;
+                  return (
+                    <tr key={entry.id} className="border-b border-slate-100 dark:border-slate-800 last:border-0">
+                      <td className="py-3 px-4 whitespace-nowrap">{new Date(entry.date).toLocaleString()}</td>
+                      <td className="py-3 px-4">{CREDIT_HISTORY_LABELS[entry.type]}</td>
+                      <td className="py-3 px-4">
+                        <span className="text-slate-900 dark:text-white">{entry.description}</span>
+                        {entry.payment && (
+                          <span className="text-slate-500 dark:text-slate-400"> · {formatPaymentAmount(entry.payment)}</span>
+                        )}
+                        {badge && (
+                          <span className={`ml-2 inline-block text-xs font-semibold px-2 py-0.5 rounded ${badge.color}`}>
+                            {badge.label}
+                          </span>
+                        )}
+                        {entry.link && (
+                          <Link href={entry.link.href} className="ml-2 text-xs text-blue-600 hover:underline">
+                            {entry.link.label}
+                          </Link>
+                        )}
+                      </td>
+                      <td
+                        className={`py-3 px-4 text-right font-semibold ${
+                          entry.credits !== null && entry.credits < 0 ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {formatCredits(entry)}
+                      </td>
+                      <td className="py-3 px-4 text-right text-slate-600 dark:text-slate-400">
+                        {entry.type === 'payment' ? '' : (entry.balanceAfter ?? 'Unlimited')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="flex flex-wrap items-center justify-center gap-4 mt-6 text-sm text-slate-600 dark:text-slate-400">
+            <span>Showing the latest {entries.length} entries; older ones are not loaded yet</span>
+            <Button variant="secondary" size="sm" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,10 +5,18 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Modal } from '@/components/ui/modal';
+import { checkSpamBeforeSend, SpamSettingsControl } from '@/components/spam-settings';
 import { LoadingButton, LoadingPage } from '@/components/ui/loading';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
+import type { Angle, EmailVariant, FollowUp, GeneratedEmails } from '@/lib/llm/schemas';
+import type { LintedEmails } from '@/lib/research';
+import { lintGeneratedEmails, EmailLintReport, EmailLintSummary } from '@/lib/email-linter';
+import { languageName, isSupportedLanguage, LanguageCode } from '@/lib/language';
+import { formatDate } from '@/lib/utils';
+import { hasEntitlement } from '@/lib/plans';
+import { formatCreditCost, PricingTable } from '@/lib/credit-pricing';
 
 // Note: CSV export now uses server-side API endpoint for proper plan-based access control
 
@@ -34,6 +42,49 @@ function formatCredits(credits: number | null): string {
   return credits.toString();
 }
 
+// The language the research's emails are written in; older research has none, so the default applies
+function getResearchLanguage(research: { language?: string | null }): LanguageCode | undefined {
+  return isSupportedLanguage(research.language) ? research.language : undefined;
+}
+
+// Scores saved with the emails, or computed here for emails generated before linting
+function getEmailLint(
+  emails: (Partial<GeneratedEmails> & { lint?: EmailLintSummary }) | null | undefined,
+  language?: LanguageCode
+): EmailLintSummary | null {
+  if (!emails?.variants) return null;
+  return (
+    emails.lint ||
+    lintGeneratedEmails({ variants: emails.variants, followUps: emails.followUps || [] }, undefined, 0, language)
+  );
+}
+
+function EmailScore({ report }: { report?: EmailLintReport }) {
+  if (!report) return null;
+  const color = !report.passed
+    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+    : report.score >= 80
+      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+      : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300';
+
+  return (
+    <div className="mt-3">
+      <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded ${color}`}>
+        Quality {report.score}/100
+      </span>
+      {report.violations.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs text-slate-500 dark:text-slate-400">
+          {report.violations.map((violation, idx) => (
+            <li key={idx}>
+              {violation.severity === 'error' ? '✗' : '!'} {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 export default function DashboardPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -43,15 +94,21 @@ export default function DashboardPage() {
   });
   const [credits, setCredits] = useState<number | null>(0);
   const [subscriptionPlan, setSubscriptionPlan] = useState<string>('free');
+  const [pricing, setPricing] = useState<PricingTable | null>(null);
   const [selectedResearch, setSelectedResearch] = useState<any>(null);
   const [selectedResponse, setSelectedResponse] = useState<any>(null);
-  const [emails, setEmails] = useState<any>(null);
+  const [emails, setEmails] = useState<LintedEmails | null>(null);
   const [generatingEmail, setGeneratingEmail] = useState(false);
   const [loading, setLoading] = useState(true);
   const [recipientEmail, setRecipientEmail] = useState('');
   const [sendingEmailId, setSendingEmailId] = useState<string | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  const emailLint = useMemo(
+    () => selectedResearch && getEmailLint(emails || selectedResearch.generated_emails, getResearchLanguage(selectedResearch)),
+    [emails, selectedResearch]
+  );
+
   useEffect(() => {
     if (status === 'authenticated') {
       fetchHistory();
@@ -74,6 +131,7 @@ export default function DashboardPage() {
         setCredits(statsData.credits !== undefined ? statsData.credits : 0);
         // Set subscription plan
         setSubscriptionPlan(statsData.subscriptionPlan || 'free');
+        setPricing(statsData.pricing || null);
         console.log('📊 Subscription plan loaded:', statsData.subscriptionPlan);
       }
     } catch (error) {
@@ -83,19 +141,23 @@ export default function DashboardPage() {
     }
   }
 
-  async function handleGenerateEmails(angle: any) {
+  async function handleGenerateEmails(angle: Angle) {
     setGeneratingEmail(true);
     try {
       const response = await fetch('/api/generate-emails', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: selectedResearch.url, angle }),
+        body: JSON.stringify({
+          url: selectedResearch.url,
+          angle,
+          language: getResearchLanguage(selectedResearch),
+        }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        setEmails(data);
+        setEmails(data.data);
         // Refresh history to get updated emails
         await fetchHistory();
       }
@@ -124,6 +186,15 @@ export default function DashboardPage() {
 
     setSendingEmailId(emailId);
     try {
+      // Warn (or stop) before the email goes out, not after
+      const spamCheck = await checkSpamBeforeSend(subject, body);
+      if (!spamCheck.proceed) {
+        if (spamCheck.blockedReason) {
+          toast.error('Email not sent', { description: spamCheck.blockedReason });
+        }
+        return;
+      }
+
       const response = await fetch('/api/send-email', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -187,6 +258,29 @@ export default function DashboardPage() {
     }
   }, [status, router]);
 
+  // Opened from the credit history (?research=42 or ?response=7): show what the credit paid for
+  useEffect(() => {
+    if (loading) return;
+    const params = new URLSearchParams(window.location.search);
+
+    for (const type of ['research', 'response'] as const) {
+      const id = Number(params.get(type));
+      if (!Number.isInteger(id) || id <= 0) continue;
+
+      const select = type === 'research' ? setSelectedResearch : setSelectedResponse;
+      const loaded = (type === 'research' ? history.research : history.responses).find((item) => item.id === id);
+      if (loaded) {
+        select(loaded);
+        continue;
+      }
+      // Older than the recent history list
+      fetch(`/api/user/history?type=${type}&id=${id}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => data?.data && select(data.data))
+        .catch((err) => console.error('Failed to load record:', err));
+    }
+  }, [loading]);
+
   if (status === 'loading' || loading) {
     return <LoadingPage />;
   }
@@ -233,9 +327,15 @@ export default function DashboardPage() {
             <Link href="/templates">
               <Button variant="secondary" size="sm">Templates</Button>
             </Link>
+            <Link href="/knowledge">
+              <Button variant="secondary" size="sm">Knowledge</Button>
+            </Link>
             <Link href="/analytics">
               <Button variant="secondary" size="sm">Analytics</Button>
             </Link>
+            <Link href="/credits">
+              <Button variant="secondary" size="sm">Credits</Button>
+            </Link>
             <Button
               variant="destructive"
               size="sm"
@@ -281,9 +381,15 @@ export default function DashboardPage() {
               <Link href="/templates" onClick={() => setMobileMenuOpen(false)}>
                 <Button variant="secondary" className="w-full justify-center">Templates</Button>
               </Link>
+              <Link href="/knowledge" onClick={() => setMobileMenuOpen(false)}>
+                <Button variant="secondary" className="w-full justify-center">Knowledge</Button>
+              </Link>
               <Link href="/analytics" onClick={() => setMobileMenuOpen(false)}>
                 <Button variant="secondary" className="w-full justify-center">Analytics</Button>
               </Link>
+              <Link href="/credits" onClick={() => setMobileMenuOpen(false)}>
+                <Button variant="secondary" className="w-full justify-center">Credits</Button>
+              </Link>
               <Button
                 variant="destructive"
                 className="w-full justify-center"
@@ -430,7 +536,7 @@ export default function DashboardPage() {
           <div>
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-bold">Recent Research</h2>
-              {history.research.length > 0 && (subscriptionPlan === 'pro' || subscriptionPlan === 'unlimited') && (
+              {history.research.length > 0 && hasEntitlement(subscriptionPlan, 'csv_export') && (
                 <button
                   onClick={async () => {
                     try {
@@ -465,7 +571,7 @@ export default function DashboardPage() {
                     }
                   }}
                   className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-100 hover:bg-blue-200 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 text-blue-600 dark:text-blue-400 rounded-lg transition-colors"
-                  title="Download research data as CSV (Pro plan required)"
+                  title={`Download research data as CSV (Pro plan required)${pricing ? ` · ${formatCreditCost(pricing.bulk_row)} per row` : ''}`}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -506,7 +612,7 @@ export default function DashboardPage() {
           <div>
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-2xl font-bold">Recent Responses</h2>
-              {history.responses.length > 0 && (subscriptionPlan === 'pro' || subscriptionPlan === 'unlimited') && (
+              {history.responses.length > 0 && hasEntitlement(subscriptionPlan, 'csv_export') && (
                 <button
                   onClick={async () => {
                     try {
@@ -540,7 +646,7 @@ export default function DashboardPage() {
                     }
                   }}
                   className="flex items-center gap-2 px-3 py-1.5 text-sm bg-green-100 hover:bg-green-200 dark:bg-green-900/30 dark:hover:bg-green-900/50 text-green-600 dark:text-green-400 rounded-lg transition-colors"
-                  title="Download response analysis data as CSV (Pro plan required)"
+                  title={`Download response analysis data as CSV (Pro plan required)${pricing ? ` · ${formatCreditCost(pricing.bulk_row)} per row` : ''}`}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -619,7 +725,25 @@ export default function DashboardPage() {
                 </div>
                 <div>
                   <h3 className="text-xs font-medium text-slate-500 uppercase tracking-wider">Date</h3>
-                  <p className="font-semibold">{formatDistanceToNow(new Date(selectedResearch.created_at), { addSuffix: true })}</p>
+                  <p className="font-semibold" title={formatDate(new Date(selectedResearch.created_at))}>
+                    {formatDistanceToNow(new Date(selectedResearch.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {selectedResearch.language && (
+                  <div>
+                    <h3 className="text-xs font-medium text-slate-500 uppercase tracking-wider">Language</h3>
+                    <p className="font-semibold">
+                      {languageName(selectedResearch.language)}
+                      {selectedResearch.site_language && selectedResearch.site_language !== selectedResearch.language && (
+                        <span className="text-xs font-normal text-slate-500"> (site in {languageName(selectedResearch.site_language)})</span>
+                      )}
+                    </p>
+                  </div>
+                )}
+                <div className="self-end">
+                  <Link href={`/respond?researchId=${selectedResearch.id}`}>
+                    <Button variant="secondary" size="sm">Got a reply?</Button>
+                  </Link>
                 </div>
               </div>
 
@@ -715,17 +839,19 @@ export default function DashboardPage() {
                           </Button>
                         </div>
                         <p className="text-xs text-blue-600 dark:text-blue-400 mt-2">Emails are sent via Resend within 1–2 seconds</p>
+                        <SpamSettingsControl />
                       </div>
 
                       <div>
                         <h2 className="text-2xl font-bold mb-6 sticky top-0 bg-slate-50/95 dark:bg-slate-900/95 py-4 z-10 backdrop-blur-sm">Email Variants</h2>
                         <div className="grid md:grid-cols-2 gap-6">
-                          {(emails?.variants || selectedResearch.generated_emails?.variants)?.map((variant: any, idx: number) => (
+                          {(emails?.variants || selectedResearch.generated_emails?.variants)?.map((variant: EmailVariant, idx: number) => (
                             <div key={idx} className="card bg-white dark:bg-slate-950 shadow-sm">
                               <div className="flex justify-between items-start mb-4">
                                 <div>
                                   <h4 className="font-bold text-xs uppercase tracking-wider text-slate-500">{variant.type}</h4>
                                   <p className="text-blue-600 font-medium text-sm">{variant.subject}</p>
+                                  <EmailScore report={emailLint?.variants[idx]} />
                                 </div>
                                 <div className="flex gap-2">
                                   <Button
@@ -762,12 +888,13 @@ export default function DashboardPage() {
                       <div>
                         <h2 className="text-2xl font-bold mb-6">Follow-up Sequence</h2>
                         <div className="grid md:grid-cols-2 gap-6">
-                          {(emails?.followUps || selectedResearch.generated_emails?.followUps)?.map((followUp: any, idx: number) => (
+                          {(emails?.followUps || selectedResearch.generated_emails?.followUps)?.map((followUp: FollowUp, idx: number) => (
                             <div key={idx} className="card bg-white dark:bg-slate-950 shadow-sm">
                               <div className="flex justify-between items-start mb-4">
                                 <div>
                                   <h4 className="font-bold text-xs uppercase tracking-wider text-slate-500">Day {followUp.day}</h4>
                                   <p className="text-blue-600 font-medium text-sm">{followUp.subject}</p>
+                                  <EmailScore report={emailLint?.followUps[idx]} />
                                 </div>
                                 <div className="flex gap-2">
                                   <Button
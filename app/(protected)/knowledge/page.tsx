@@ -0,0 +1,280 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Modal } from '@/components/ui/modal';
+import { LoadingPage, LoadingButton } from '@/components/ui/loading';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import Link from 'next/link';
+import { KNOWLEDGE_KINDS, KIND_LABELS, KnowledgeKind } from '@/lib/knowledge';
+
+interface KnowledgeItem {
+  id: number;
+  kind: KnowledgeKind;
+  title: string;
+  content: string;
+  tags: string[];
+  updated_at: string;
+}
+
+const EMPTY_FORM = { kind: 'customer_story' as KnowledgeKind, title: '', content: '', tags: '' };
+
+const KIND_HINTS: Record<KnowledgeKind, string> = {
+  offering: 'What you sell, in a sentence or two. Can fill in the service on the research page.',
+  customer_story: 'Who you helped, what was wrong, and what changed.',
+  metric: 'A number you can back up, with its context.',
+  differentiator: 'Why buyers pick you over the alternatives.',
+};
+
+export default function KnowledgePage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [items, setItems] = useState<KnowledgeItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingItem, setEditingItem] = useState<KnowledgeItem | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchItems();
+    }
+  }, [status]);
+
+  async function fetchItems() {
+    try {
+      const response = await fetch('/api/knowledge');
+      const data = await response.json();
+      if (response.ok) {
+        setItems(data.data || []);
+      } else {
+        toast.error('Failed to fetch knowledge base', { description: data.error });
+      }
+    } catch (error) {
+      toast.error('Error fetching knowledge base');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openModal(item: KnowledgeItem | null) {
+    setEditingItem(item);
+    setFormData(
+      item ? { kind: item.kind, title: item.title, content: item.content, tags: item.tags.join(', ') } : EMPTY_FORM
+    );
+    setShowModal(true);
+  }
+
+  async function handleSave() {
+    if (!formData.title.trim() || !formData.content.trim()) {
+      toast.error('Please fill in a title and content');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingItem ? `/api/knowledge/${editingItem.id}` : '/api/knowledge', {
+        method: editingItem ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: formData.kind,
+          title: formData.title,
+          content: formData.content,
+          tags: formData.tags
+            .split(',')
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(editingItem ? 'Item updated' : 'Item added', { description: data.data?.title });
+        setShowModal(false);
+        fetchItems();
+      } else {
+        toast.error('Failed to save item', { description: data.error });
+      }
+    } catch (error) {
+      toast.error('Error saving item');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(item: KnowledgeItem) {
+    if (!confirm(`Delete "${item.title}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/knowledge/${item.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Item deleted');
+        setItems((prev) => prev.filter((other) => other.id !== item.id));
+      } else {
+        const data = await response.json();
+        toast.error('Failed to delete item', { description: data.error });
+      }
+    } catch (error) {
+      toast.error('Error deleting item');
+      console.error(error);
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return <LoadingPage />;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-2">Knowledge Base</h1>
+            <p className="text-slate-600 dark:text-slate-400">
+              Proof the AI can cite: the most relevant items are added to each analysis and email
+            </p>
+          </div>
+          <Button onClick={() => openModal(null)} className="bg-blue-600 hover:bg-blue-700 text-white">
+            + Add Item
+          </Button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="text-center py-16">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">Nothing here yet</h2>
+            <p className="text-slate-600 dark:text-slate-400 mb-6">
+              Add a customer story or a metric so your emails reference real results
+            </p>
+            <Button onClick={() => openModal(null)} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Add First Item
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {KNOWLEDGE_KINDS.filter((kind) => items.some((item) => item.kind === kind)).map((kind) => (
+              <section key={kind}>
+                <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-3">{KIND_LABELS[kind]}</h2>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {items
+                    .filter((item) => item.kind === kind)
+                    .map((item) => (
+                      <div
+                        key={item.id}
+                        className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 p-4"
+                      >
+                        <h3 className="font-bold text-slate-900 dark:text-white mb-1">{item.title}</h3>
+                        <p className="text-sm text-slate-700 dark:text-slate-300 line-clamp-3 mb-2">{item.content}</p>
+                        {item.tags.length > 0 && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">{item.tags.join(' · ')}</p>
+                        )}
+                        <div className="flex gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => openModal(item)} className="flex-1">
+                            Edit
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => handleDelete(item)}
+                            className="flex-1 text-red-600 hover:text-red-700"
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Modal */}
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)} title={editingItem ? 'Edit Item' : 'New Item'}>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Kind</label>
+            <select
+              value={formData.kind}
+              onChange={(e) => setFormData({ ...formData, kind: e.target.value as KnowledgeKind })}
+              className="input"
+            >
+              {KNOWLEDGE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">{KIND_HINTS[formData.kind]}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Title *</label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g., Acme cut onboarding time by 40%"
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Content *</label>
+            <textarea
+              value={formData.content}
+              onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+              placeholder="The details the AI may quote..."
+              rows={5}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Tags</label>
+            <input
+              type="text"
+              value={formData.tags}
+              onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+              placeholder="e.g., fintech, onboarding, Stripe"
+              className="input"
+            />
+            <p className="text-xs text-slate-500 mt-1">Comma separated; matches on tags count most</p>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button variant="secondary" onClick={() => setShowModal(false)} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {saving ? <LoadingButton>Saving...</LoadingButton> : 'Save Item'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Navigation Link */}
+      <div className="max-w-6xl mx-auto px-4 py-4 border-t border-slate-200 dark:border-slate-700 mt-8">
+        <Link href="/research" className="text-blue-600 hover:text-blue-700 dark:text-blue-400 text-sm">
+          ← Back to Research
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -3,39 +3,34 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { useSession } from 'next-auth/react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  formatCreditCost,
+  CREDIT_ACTIONS,
+  CREDIT_ACTION_LABELS,
+  PricingTable,
+} from '@/lib/credit-pricing';
+import { PAID_PLAN_IDS, PLAN_IDS, PLANS, PlanId, isUnlimitedPlan } from '@/lib/plans';
 
 export default function PricingPage() {
   const { data: session } = useSession();
   const [loading, setLoading] = useState<string | null>(null);
-
-  const plans = [
-    {
-      name: 'Starter',
-      price: '$9',
-      credits: 10,
-      planName: 'starter',
-      features: ['10 Researches', 'Email support', 'Basic analytics'],
-      highlighted: false,
-    },
-    {
-      name: 'Pro',
-      price: '$19',
-      credits: 25,
-      planName: 'pro',
-      features: ['25 Researches', 'Priority support', 'Advanced analytics', 'API access', 'CSV Export'],
-      highlighted: true,
-    },
-    {
-      name: 'Unlimited',
-      price: '$29',
-      period: '/month',
-      credits: 'unlimited',
-      planName: 'unlimited',
-      features: ['Unlimited Researches', '24/7 support', 'Advanced analytics', 'API access', 'Custom templates'],
-      highlighted: false,
-    },
-  ];
+  // What each action costs on every plan, and the plan the user is on
+  const [pricingByPlan, setPricingByPlan] = useState<Record<PlanId, PricingTable> | null>(null);
+  const [currentPlan, setCurrentPlan] = useState<string>('free');
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    fetch('/api/user/stats')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        setPricingByPlan(data?.pricingByPlan || null);
+        setCurrentPlan(data?.subscriptionPlan || 'free');
+      })
+      .catch(() => setPricingByPlan(null));
+  }, [session?.user?.id]);
+
+  const plans = PAID_PLAN_IDS.map((id) => PLANS[id]);
 
   async function handleCheckout(planName: string) {
     if (!session?.user?.id) {
@@ -98,9 +93,9 @@ export default function PricingPage() {
         </p>
 
         <div className="grid md:grid-cols-3 gap-8 max-w-5xl mx-auto">
-          {plans.map((plan, idx) => (
+          {plans.map((plan) => (
             <div
-              key={idx}
+              key={plan.id}
               className={`card ${plan.highlighted ? 'ring-2 ring-blue-500 relative' : ''}`}
             >
               {plan.highlighted && (
@@ -111,24 +106,24 @@ export default function PricingPage() {
 
               <h3 className="text-2xl font-bold mb-2">{plan.name}</h3>
               <div className="mb-6">
-                <span className="text-4xl font-bold">{plan.price}</span>
+                <span className="text-4xl font-bold">${plan.priceUsd}</span>
                 {plan.period && <span className="text-slate-600 dark:text-slate-400">{plan.period}</span>}
               </div>
 
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
-                {plan.credits === 999999 ? 'Unlimited' : plan.credits} credits
+                {isUnlimitedPlan(plan.id) ? 'Unlimited' : plan.purchaseCredits} credits
               </p>
 
               <Button
                 className="w-full mb-6"
-                onClick={() => handleCheckout(plan.planName)}
-                disabled={loading === plan.planName}
+                onClick={() => handleCheckout(plan.id)}
+                disabled={loading === plan.id}
               >
-                {loading === plan.planName ? 'Processing...' : 'Get Started'}
+                {loading === plan.id ? 'Processing...' : 'Get Started'}
               </Button>
 
               <div className="space-y-3">
-                {plan.features.map((feature, fidx) => (
+                {plan.highlights.map((feature, fidx) => (
                   <div key={fidx} className="flex gap-2">
                     <span className="text-green-600">✓</span>
                     <span className="text-sm">{feature}</span>
@@ -139,10 +134,51 @@ export default function PricingPage() {
           ))}
         </div>
 
+        {pricingByPlan && (
+          <div className="mt-16 max-w-5xl mx-auto">
+            <h2 className="text-2xl font-bold mb-2 text-center">What Each Action Costs</h2>
+            <p className="text-center text-sm text-slate-600 dark:text-slate-400 mb-6">
+              Credits are only kept when an action succeeds; failed or cancelled actions are refunded automatically.
+            </p>
+            <div className="card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-800 text-left">
+                    <th className="py-2 pr-4">Action</th>
+                    {PLAN_IDS.map((plan) => (
+                      <th key={plan} className={`py-2 px-2 ${plan === currentPlan ? 'text-blue-600' : ''}`}>
+                        {PLANS[plan].name}
+                        {plan === currentPlan ? ' (yours)' : ''}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {CREDIT_ACTIONS.map((action) => (
+                    <tr key={action} className="border-b border-slate-100 dark:border-slate-900 last:border-0">
+                      <td className="py-2 pr-4">
+                        <p className="font-semibold">{CREDIT_ACTION_LABELS[action].label}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{CREDIT_ACTION_LABELS[action].description}</p>
+                      </td>
+                      {PLAN_IDS.map((plan) => (
+                        <td key={plan} className="py-2 px-2">
+                          {isUnlimitedPlan(plan) ? 'Included' : formatCreditCost(pricingByPlan[plan][action])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         <div className="mt-16 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-8 text-center">
           <h2 className="text-2xl font-bold mb-2">Response Assistant</h2>
           <p className="text-slate-600 dark:text-slate-400">
-            Always free and unlimited. Analyze prospect responses at no cost and help build community insights.
+            {pricingByPlan && pricingByPlan.free.respond > 0
+              ? `Analyze prospect responses for ${formatCreditCost(pricingByPlan.free.respond)} each and help build community insights.`
+              : 'Always free and unlimited. Analyze prospect responses at no cost and help build community insights.'}
           </p>
         </div>
       </div>
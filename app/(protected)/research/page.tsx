@@ -1,18 +1,80 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { checkSpamBeforeSend, SpamSettingsControl } from '@/components/spam-settings';
 import { LoadingSpinner, LoadingButton } from '@/components/ui/loading';
+import type { Angle, EmailVariant, FollowUp, GeneratedEmails } from '@/lib/llm/schemas';
+import type { LintedEmails, ProspectResearch, ResearchStage } from '@/lib/research';
+import type { ScrapeProgress } from '@/lib/scraper';
+import type { ScrapeCacheInfo } from '@/lib/scrape-cache';
+import { readEventStream } from '@/lib/utils';
+import { LANGUAGE_CODES, LANGUAGE_NAMES, languageName, LanguageCode } from '@/lib/language';
+import { KIND_LABELS, KnowledgeItem } from '@/lib/knowledge';
+import type { EvidenceGrounding } from '@/lib/evidence';
+import { formatCreditCost, PricingTable } from '@/lib/credit-pricing';
 
-interface Angle {
-  type: string;
-  hook: string;
-  evidence: string;
-  reasoning: string;
-  connection: string;
+// Streamed angles arrive before their evidence is checked; the final result has grounding
+type ResearchAngle = Angle & { grounding?: EvidenceGrounding };
+
+// Events sent by the streaming endpoints (app/api/analyze/stream, app/api/generate-emails/stream)
+type StreamEvents<Result> = {
+  stage: { stage: ResearchStage; message: string };
+  error: { error?: string; code?: string };
+  result: { data: Result };
+};
+
+type AnalysisEvents = StreamEvents<ProspectResearch> & {
+  page: ScrapeProgress;
+  cache: ScrapeCacheInfo;
+  angle: { index: number; angle: Angle };
+};
+
+type EmailEvents = StreamEvents<LintedEmails> & {
+  variant: { index: number; variant: EmailVariant };
+  followUp: { index: number; followUp: FollowUp };
+};
+
+// [event, data] pairs, so checking the event name narrows the data
+type StreamEventArgs<Events> = { [E in keyof Events]: [event: E, data: Events[E]] }[keyof Events];
+
+const GROUNDING_BADGES: Record<EvidenceGrounding['status'], { label: string; color: string }> = {
+  grounded: { label: 'Found on site', color: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  partial: { label: 'Paraphrased', color: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  ungrounded: { label: 'Not found on site', color: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+};
+
+const SOURCE_LABELS: Record<NonNullable<EvidenceGrounding['source']>, string> = {
+  page: 'Page text',
+  structured_data: 'Structured data',
+  technologies: 'Detected technologies',
+  hiring: 'Hiring signals',
+};
+
+function EvidenceSource({ grounding }: { grounding?: EvidenceGrounding }) {
+  if (!grounding) return null;
+  const badge = GROUNDING_BADGES[grounding.status];
+
+  return (
+    <div className="mt-2">
+      <span className={`inline-block text-xs font-semibold px-2 py-0.5 rounded ${badge.color}`}>
+        {badge.label} · {Math.round(grounding.score * 100)}%
+      </span>
+      {grounding.snippet && grounding.source && (
+        <blockquote className="mt-2 border-l-4 border-slate-200 dark:border-slate-700 pl-3 text-sm text-slate-600 dark:text-slate-400">
+          <p className="text-xs font-semibold mb-1">{SOURCE_LABELS[grounding.source]}</p>
+          {grounding.snippet.before}
+          <mark className="bg-yellow-200 dark:bg-yellow-700/60 text-slate-900 dark:text-white px-0.5">
+            {grounding.snippet.match}
+          </mark>
+          {grounding.snippet.after}
+        </blockquote>
+      )}
+    </div>
+  );
 }
 
 export default function ResearchPage() {
@@ -20,74 +82,190 @@ export default function ResearchPage() {
   const router = useRouter();
   const [url, setUrl] = useState('');
   const [service, setService] = useState('');
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [language, setLanguage] = useState<LanguageCode | 'auto'>('auto');
+  // Language the angles came back in, and the site's own; emails use the former
+  const [resultLanguage, setResultLanguage] = useState<{ target: LanguageCode; site: string } | null>(null);
+  const [cacheInfo, setCacheInfo] = useState<{ hit: boolean; revalidated: boolean; ageSeconds: number } | null>(null);
   const [loading, setLoading] = useState(false);
-  const [angles, setAngles] = useState<Angle[]>([]);
+  const [angles, setAngles] = useState<ResearchAngle[]>([]);
   const [selectedAngle, setSelectedAngle] = useState<Angle | null>(null);
-  const [emails, setEmails] = useState<any>(null);
+  const [emails, setEmails] = useState<GeneratedEmails | null>(null);
+  // The first set of emails after an analysis is included; later sets are charged
+  const [emailsIncluded, setEmailsIncluded] = useState(true);
   const [error, setError] = useState('');
   const [recipientEmail, setRecipientEmail] = useState('');
   const [sendingEmail, setSendingEmail] = useState<string | null>(null);
+  const [progress, setProgress] = useState('');
+  const [pages, setPages] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Saved generation profiles; '' means the user's default (or none)
+  const [profiles, setProfiles] = useState<{ id: number; name: string; is_default: boolean }[]>([]);
+  const [profileId, setProfileId] = useState('');
+  // Knowledge base items to draw proof from; all of them unless the user unticks some
+  const [knowledgeItems, setKnowledgeItems] = useState<KnowledgeItem[]>([]);
+  const [excludedKnowledge, setExcludedKnowledge] = useState<number[]>([]);
+  const [knowledgeUsed, setKnowledgeUsed] = useState<{ id: number; title: string }[]>([]);
+  // Credit costs on the user's plan, shown before each action
+  const [pricing, setPricing] = useState<PricingTable | null>(null);
 
   if (status === 'unauthenticated') {
     router.push('/auth/signin');
   }
 
-  async function handleAnalyze(e: React.FormEvent) {
-    e.preventDefault();
-    setError('');
-    setLoading(true);
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    fetch('/api/generation-profiles')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setProfiles(data?.data || []))
+      .catch(() => setProfiles([]));
+    fetch('/api/knowledge')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setKnowledgeItems(data?.data || []))
+      .catch(() => setKnowledgeItems([]));
+    fetch('/api/user/stats')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setPricing(data?.pricing || null))
+      .catch(() => setPricing(null));
+  }, [status]);
+
+  // Omitted means the whole knowledge base, including items added later
+  const knowledgeIds =
+    excludedKnowledge.length > 0
+      ? knowledgeItems.map((item) => item.id).filter((id) => !excludedKnowledge.includes(id))
+      : undefined;
+
+  function toggleKnowledge(id: number) {
+    setExcludedKnowledge((prev) => (prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]));
+  }
+
+  // Cancels the analysis or generation currently streaming
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
+
+  /**
+   * POST to a streaming endpoint and dispatch its events until the result arrives
+   * Returns false if the request failed or was cancelled (error already shown)
+   */
+  async function runStream<Events extends StreamEvents<unknown>>(
+    endpoint: string,
+    payload: unknown,
+    onEvent: (...args: StreamEventArgs<Events>) => void
+  ): Promise<boolean> {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let failed = false;
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, service }),
+        body: JSON.stringify(payload),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
-        setError(data.error || 'Analysis failed');
-        return;
+        const data = await response.json();
+        setError(data.error || 'Request failed');
+        return false;
       }
 
-      // Extract angles from nested data structure
-      const angles = data.data?.angles || data.angles || [];
-      setAngles(angles);
-      setEmails(null);
-      setSelectedAngle(null);
+      await readEventStream(response, (event, data) => {
+        // Our own endpoints sent it, so the event name says what the data is
+        const [name, body] = [event, data] as StreamEventArgs<StreamEvents<unknown>>;
+        if (name === 'stage') setProgress(body.message);
+        else if (name === 'error') {
+          failed = true;
+          setError(body.error || 'Request failed');
+        } else onEvent(...([event, data] as StreamEventArgs<Events>));
+      });
+      return !failed;
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      if (controller.signal.aborted) {
+        setError('Cancelled. No credits were used.');
+      } else {
+        setError('An error occurred. Please try again.');
+      }
+      return false;
     } finally {
-      setLoading(false);
+      abortRef.current = null;
+      setProgress('');
     }
   }
 
-  async function handleGenerateEmails(angle: Angle) {
+  async function handleAnalyze(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
     setLoading(true);
-    try {
-      const response = await fetch('/api/generate-emails', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, angle }),
-      });
+    setAngles([]);
+    setPages([]);
+    setCacheInfo(null);
+    setResultLanguage(null);
+    setKnowledgeUsed([]);
+    setEmails(null);
+    setSelectedAngle(null);
+    setEmailsIncluded(true);
 
-      const data = await response.json();
+    const completed = await runStream<AnalysisEvents>('/api/analyze/stream', { url, service, forceRefresh, language, knowledgeIds }, (event, data) => {
+      if (event === 'page' && data.stage === 'page') {
+        setPages((prev) => [...prev, data.title || data.url]);
+      } else if (event === 'cache') {
+        setCacheInfo(data);
+      } else if (event === 'angle') {
+        // A retry restarts at index 0, replacing what the failed attempt streamed
+        setAngles((prev) => [...prev.slice(0, data.index), data.angle]);
+      } else if (event === 'result') {
+        setAngles(data.data?.angles || []);
+        setCacheInfo(data.data?.cache || null);
+        setKnowledgeUsed(data.data?.knowledge || []);
+        if (data.data?.language) {
+          setResultLanguage({ target: data.data.language, site: data.data.siteLanguage?.code });
+        }
+      }
+    });
 
-      if (!response.ok) {
-        setError(data.error || 'Generation failed');
-        return;
+    // Partial angles from an unfinished analysis can't be used
+    if (!completed) setAngles([]);
+    setLoading(false);
+  }
+
+  async function handleGenerateEmails(angle: Angle) {
+    setError('');
+    setLoading(true);
+    setSelectedAngle(angle);
+    setEmails({ variants: [], followUps: [] });
+
+    const payload = {
+      url,
+      angle,
+      language: resultLanguage?.target,
+      profileId: profileId ? Number(profileId) : undefined,
+      knowledgeIds,
+    };
+    const completed = await runStream<EmailEvents>('/api/generate-emails/stream', payload, (event, data) => {
+      if (event === 'variant') {
+        setEmails((prev) => ({
+          variants: [...(prev?.variants || []).slice(0, data.index), data.variant],
+          followUps: prev?.followUps || [],
+        }));
+      } else if (event === 'followUp') {
+        setEmails((prev) => ({
+          variants: prev?.variants || [],
+          followUps: [...(prev?.followUps || []).slice(0, data.index), data.followUp],
+        }));
+      } else if (event === 'result') {
+        setEmails(data.data);
       }
+    });
 
-      // Extract emails from nested data structure
-      const emailsData = data.data || data;
-      setEmails(emailsData);
-      setSelectedAngle(angle);
-    } catch (err) {
-      setError('An error occurred. Please try again.');
-    } finally {
-      setLoading(false);
+    if (!completed) {
+      setEmails(null);
+      setSelectedAngle(null);
+    } else {
+      setEmailsIncluded(false);
     }
+    setLoading(false);
   }
 
   async function handleSendEmail(subject: string, body: string) {
@@ -98,6 +276,13 @@ export default function ResearchPage() {
 
     setSendingEmail(subject);
     try {
+      // Warn (or stop) before the email goes out, not after
+      const spamCheck = await checkSpamBeforeSend(subject, body);
+      if (!spamCheck.proceed) {
+        if (spamCheck.blockedReason) setError(`Email not sent: ${spamCheck.blockedReason}`);
+        return;
+      }
+
       const response = await fetch('/api/send-email', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -164,7 +349,7 @@ export default function ResearchPage() {
             />
           </div>
 
-          <div className="mb-6">
+          <div className="mb-4">
             <label className="block text-sm font-medium mb-2">Service You're Selling</label>
             <textarea
               value={service}
@@ -174,16 +359,149 @@ export default function ResearchPage() {
               rows={3}
               required
             />
+            {knowledgeItems.some((item) => item.kind === 'offering') && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const offering = knowledgeItems.find((item) => item.id === Number(e.target.value));
+                  if (offering) setService(`${offering.title}: ${offering.content}`.substring(0, 500));
+                }}
+                className="input mt-2"
+              >
+                <option value="">Fill in from a saved offering...</option>
+                {knowledgeItems
+                  .filter((item) => item.kind === 'offering')
+                  .map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.title}
+                    </option>
+                  ))}
+              </select>
+            )}
           </div>
 
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Proof to Draw On</label>
+            {knowledgeItems.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Add customer stories, metrics and differentiators to your{' '}
+                <Link href="/knowledge" className="text-blue-600 hover:underline">
+                  knowledge base
+                </Link>{' '}
+                and the most relevant ones will be cited in angles and emails.
+              </p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto space-y-1 text-sm">
+                {knowledgeItems.map((item) => (
+                  <label key={item.id} className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={!excludedKnowledge.includes(item.id)}
+                      onChange={() => toggleKnowledge(item.id)}
+                    />
+                    <span className="truncate">
+                      <span className="text-xs text-slate-400">{KIND_LABELS[item.kind]}</span> {item.title}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Email Language</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as LanguageCode | 'auto')}
+              className="input"
+            >
+              <option value="auto">Same as the prospect's site</option>
+              {LANGUAGE_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {LANGUAGE_NAMES[code]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 mb-6 text-sm text-slate-600 dark:text-slate-400">
+            <input
+              type="checkbox"
+              checked={forceRefresh}
+              onChange={(e) => setForceRefresh(e.target.checked)}
+            />
+            Re-scrape the site even if it was researched recently
+            {pricing && ` (deep analysis, ${formatCreditCost(pricing.deep_analyze)})`}
+          </label>
+
           <Button type="submit" disabled={loading} className="w-full">
             {loading ? <LoadingButton>Analyzing Prospect...</LoadingButton> : 'Analyze Prospect'}
           </Button>
+          {pricing && (
+            <p className="text-xs text-center text-slate-500 dark:text-slate-400 mt-2">
+              Cost: {formatCreditCost(forceRefresh ? pricing.deep_analyze : pricing.analyze)}, only charged once the
+              analysis is saved. Emails for the angles it finds are included.
+            </p>
+          )}
         </form>
 
+        {loading && (
+          <div className="card mb-8 max-w-2xl">
+            <div className="flex justify-between items-center gap-4">
+              <div className="flex items-center gap-3">
+                <LoadingSpinner />
+                <p className="text-sm text-slate-600 dark:text-slate-400">{progress || 'Starting...'}</p>
+              </div>
+              <Button variant="secondary" onClick={handleCancel}>
+                Cancel
+              </Button>
+            </div>
+            {pages.length > 0 && (
+              <ul className="mt-4 space-y-1 text-xs text-slate-500 dark:text-slate-400">
+                {pages.map((page, idx) => (
+                  <li key={idx} className="truncate">✓ {page}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {angles.length > 0 && (
           <div className="space-y-6">
-            <h2 className="text-2xl font-bold">Found Angles</h2>
+            <div className="flex flex-wrap justify-between items-end gap-4">
+              <h2 className="text-2xl font-bold">Found Angles</h2>
+              {profiles.length > 0 && (
+                <label className="text-sm text-slate-600 dark:text-slate-400">
+                  Writing profile
+                  <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className="input mt-1">
+                    <option value="">Default</option>
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                        {profile.is_default ? ' (default)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            {cacheInfo?.hit && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Based on a cached scrape from {Math.round(cacheInfo.ageSeconds / 3600)}h ago
+                {cacheInfo.revalidated ? ' (confirmed unchanged)' : ''}. Tick re-scrape to fetch the site again.
+              </p>
+            )}
+            {resultLanguage && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Site detected as {languageName(resultLanguage.site)}; angles and emails in {languageName(resultLanguage.target)}.
+                Evidence stays in the site's language.
+              </p>
+            )}
+            {knowledgeUsed.length > 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Proof considered: {knowledgeUsed.map((item) => item.title).join(', ')}
+              </p>
+            )}
             {angles.map((angle, idx) => (
               <div key={idx} className="card">
                 <div className="mb-4">
@@ -195,6 +513,17 @@ export default function ResearchPage() {
                   <div>
                     <p className="text-sm font-semibold text-slate-600 dark:text-slate-400">Evidence:</p>
                     <p className="text-slate-900 dark:text-white">{angle.evidence}</p>
+                    {angle.sourceUrl && (
+                      <a
+                        href={angle.sourceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline break-all"
+                      >
+                        Source: {angle.sourceUrl}
+                      </a>
+                    )}
+                    <EvidenceSource grounding={angle.grounding} />
                   </div>
                   <div>
                     <p className="text-sm font-semibold text-slate-600 dark:text-slate-400">Why it matters:</p>
@@ -213,6 +542,13 @@ export default function ResearchPage() {
                 >
                   {loading ? <LoadingButton>Generating Emails...</LoadingButton> : 'Generate Emails for This Angle'}
                 </Button>
+                {pricing && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-2 text-center">
+                    {emailsIncluded
+                      ? 'Included with this analysis'
+                      : `${formatCreditCost(pricing.generate_emails)} for a new set of emails`}
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -245,11 +581,15 @@ export default function ResearchPage() {
                   ✓ Ready
                 </Button>
               </div>
-              <p className="text-xs text-blue-600 dark:text-blue-400 mt-2">Emails are sent via Resend within 1–2 seconds</p>
+              <p className="text-xs text-blue-600 dark:text-blue-400 mt-2">
+                Emails are sent via Resend within 1–2 seconds
+                {pricing && ` · ${formatCreditCost(pricing.send)} per email`}
+              </p>
+              <SpamSettingsControl />
             </div>
 
             <h2 className="text-2xl font-bold">Email Variants</h2>
-            {emails.variants?.map((variant: any, idx: number) => (
+            {emails.variants.map((variant, idx) => (
               <div key={idx} className="card">
                 <div className="flex justify-between items-start mb-4">
                   <div>
@@ -280,7 +620,7 @@ export default function ResearchPage() {
             ))}
 
             <h2 className="text-2xl font-bold mt-8">Follow-ups</h2>
-            {emails.followUps?.map((followUp: any, idx: number) => (
+            {emails.followUps.map((followUp, idx) => (
               <div key={idx} className="card">
                 <div className="flex justify-between items-start mb-4">
                   <div>
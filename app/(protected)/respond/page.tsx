@@ -1,11 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { LoadingButton } from '@/components/ui/loading';
+import type { HandledResponse } from '@/lib/llm/schemas';
+import { formatCreditCost, PricingTable } from '@/lib/credit-pricing';
 
 // Format snake_case values to Title Case (e.g., "timing_issue" -> "Timing Issue")
 function formatValue(value: string | null | undefined): string {
@@ -25,8 +27,25 @@ export default function RespondPage() {
   const [prospectResponse, setProspectResponse] = useState('');
   const [angleUsed, setAngleUsed] = useState('');
   const [loading, setLoading] = useState(false);
-  const [analysis, setAnalysis] = useState<any>(null);
+  const [analysis, setAnalysis] = useState<HandledResponse | null>(null);
   const [error, setError] = useState('');
+  // Set when opened from a saved research, so the reply counts towards its prompt version
+  const [researchId, setResearchId] = useState<number | null>(null);
+  // Credit costs on the user's plan, shown next to the action
+  const [pricing, setPricing] = useState<PricingTable | null>(null);
+
+  useEffect(() => {
+    const id = Number(new URLSearchParams(window.location.search).get('researchId'));
+    if (Number.isInteger(id) && id > 0) setResearchId(id);
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    fetch('/api/user/stats')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setPricing(data?.pricing || null))
+      .catch(() => setPricing(null));
+  }, [status]);
 
   if (status === 'unauthenticated') {
     router.push('/auth/signin');
@@ -45,6 +64,7 @@ export default function RespondPage() {
           originalEmail,
           prospectResponse,
           angleUsed: angleUsed || 'unknown',
+          ...(researchId ? { researchId } : {}),
         }),
       });
 
@@ -126,9 +146,20 @@ export default function RespondPage() {
             />
           </div>
 
+          {researchId && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+              This reply will be linked to research #{researchId}.
+            </p>
+          )}
+
           <Button type="submit" disabled={loading} className="w-full">
             {loading ? <LoadingButton>Analyzing Response...</LoadingButton> : 'Generate Reply'}
           </Button>
+          {pricing && (
+            <p className="text-xs text-center text-slate-500 dark:text-slate-400 mt-2">
+              Cost: {formatCreditCost(pricing.respond)}
+            </p>
+          )}
         </form>
 
         {analysis && (
@@ -177,7 +208,7 @@ export default function RespondPage() {
             )}
 
             <h2 className="text-2xl font-bold mt-8">Suggested Replies</h2>
-            {analysis.replies?.map((reply: any, idx: number) => (
+            {analysis.replies.map((reply, idx) => (
               <div key={idx} className="card">
                 <div className="flex justify-between items-start mb-4">
                   <div>
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { getPromptOutcomeRows } from '@/lib/db';
+import { listPrompts, selectPrompt, summarizePromptOutcomes } from '@/lib/prompts';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Compare prompt versions by reply outcome
+ * GET /api/admin/prompt-experiments?days=30
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key in header
+    const apiKey = req.headers.get('X-Admin-API-Key');
+
+    if (!apiKey || apiKey !== ADMIN_API_KEY) {
+      logAction('UNAUTHORIZED_ADMIN_ACCESS', -1, { reason: 'Invalid API key' });
+      throw new AppError(401, 'Unauthorized: Invalid or missing API key', 'UNAUTHORIZED');
+    }
+
+    const days = Number(req.nextUrl.searchParams.get('days') || 30);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      throw new AppError(400, 'days must be an integer between 1 and 365', 'INVALID_INPUT');
+    }
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const rows = await getPromptOutcomeRows(since);
+    const ids = Array.from(new Set(listPrompts().map((prompt) => prompt.id)));
+
+    return NextResponse.json({
+      success: true,
+      since,
+      prompts: listPrompts().map(({ id, version, description }) => ({ id, version, description })),
+      // What a request without a user (no experiment assignment) would get right now
+      defaults: Object.fromEntries(ids.map((id) => [id, selectPrompt(id).key])),
+      experiments: Object.fromEntries(
+        ids.map((id) => [id, process.env[`PROMPT_EXPERIMENT_${id.toUpperCase()}`] || null])
+      ),
+      outcomes: summarizePromptOutcomes(rows),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return handleError(error);
+    }
+
+    console.error('Admin prompt experiments error:', error);
+    return handleError(
+      new AppError(500, 'Failed to load prompt experiments', 'ADMIN_PROMPT_EXPERIMENTS_FAILED')
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { getBrowserPoolMetrics } from '@/lib/browser-pool';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key in header
+    const apiKey = req.headers.get('X-Admin-API-Key');
+
+    if (!apiKey || apiKey !== ADMIN_API_KEY) {
+      logAction('UNAUTHORIZED_ADMIN_ACCESS', -1, { reason: 'Invalid API key' });
+      throw new AppError(401, 'Unauthorized: Invalid or missing API key', 'UNAUTHORIZED');
+    }
+
+    // Metrics are per server instance
+    return NextResponse.json({
+      success: true,
+      metrics: getBrowserPoolMetrics(),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return handleError(error);
+    }
+
+    console.error('Admin scraper metrics error:', error);
+    return handleError(
+      new AppError(500, 'Failed to load scraper metrics', 'ADMIN_METRICS_FAILED')
+    );
+  }
+}
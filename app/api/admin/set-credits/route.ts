@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { SetCreditsSchema, validateInput } from '@/lib/validation';
 import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { setCredits } from '@/lib/credits';
 
 // Use service role key for admin operations
 const supabase = createClient(
@@ -43,12 +44,13 @@ export async function POST(req: NextRequest) {
       throw new AppError(404, 'User not found', 'USER_NOT_FOUND');
     }
 
-    // Update credits
+    // Update credits through the ledger, so the change shows in the user's history
+    await setCredits(user.id, 'admin_adjustment', credits, { note: 'Set by admin' });
+
     const { data: updatedUser, error: updateError } = await supabase
       .from('users')
-      .update({ credits })
-      .eq('id', user.id)
-      .select();
+      .select('id, email, credits')
+      .eq('id', user.id);
 
     if (updateError) {
       throw updateError;
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { buildUsageReport } from '@/lib/usage';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * LLM usage and unit economics per feature, model and plan
+ * GET /api/admin/usage?days=30
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check for API key in header
+    const apiKey = req.headers.get('X-Admin-API-Key');
+
+    if (!apiKey || apiKey !== ADMIN_API_KEY) {
+      logAction('UNAUTHORIZED_ADMIN_ACCESS', -1, { reason: 'Invalid API key' });
+      throw new AppError(401, 'Unauthorized: Invalid or missing API key', 'UNAUTHORIZED');
+    }
+
+    const days = Number(req.nextUrl.searchParams.get('days') || 30);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      throw new AppError(400, 'days must be an integer between 1 and 365', 'INVALID_INPUT');
+    }
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    return NextResponse.json({
+      success: true,
+      report: await buildUsageReport(since),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return handleError(error);
+    }
+
+    console.error('Admin usage report error:', error);
+    return handleError(
+      new AppError(500, 'Failed to build usage report', 'ADMIN_USAGE_FAILED')
+    );
+  }
+}
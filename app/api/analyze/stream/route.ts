@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { runProspectAnalysis } from '@/lib/research';
+import { createEventStream } from '@/lib/event-stream';
+import {
+  handleError,
+  AppError,
+  checkRateLimit,
+  logAction,
+} from '@/lib/error-handler';
+import { AnalyzeSchema, validateInput, checkMaliciousPatterns } from '@/lib/validation';
+import { getUserPlan } from '@/lib/db';
+import { getPlan } from '@/lib/plans';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Same analysis as POST /api/analyze, streamed as Server-Sent Events:
+ * stage, page, cache and angle events while it runs, then result (or error)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Authenticate
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id);
+
+    // Rate limiting - shares the bucket with the non-streaming endpoint
+    const { rateLimits } = getPlan(await getUserPlan(userId));
+    checkRateLimit(`analyze:${userId}`, rateLimits.analyze, 3600000); // per hour, by plan
+
+    // Parse and validate request body
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    // Validate against schema
+    const input = await validateInput(AnalyzeSchema, body);
+    const { service } = input;
+
+    // Check for malicious patterns
+    const maliciousCheck = checkMaliciousPatterns(service);
+    if (maliciousCheck) {
+      logAction('MALICIOUS_PATTERN_DETECTED', userId, { service, reason: maliciousCheck });
+      throw new AppError(400, 'Input contains potentially malicious content', 'MALICIOUS_INPUT');
+    }
+
+    return createEventStream(async (send, signal) => {
+      const research = await runProspectAnalysis(
+        userId,
+        input,
+        {
+          signal,
+          onStage: (stage, message) => send('stage', { stage, message }),
+          onPage: (progress) => send('page', progress),
+          onCache: (cache) => send('cache', cache),
+          onAngle: (angle, index) => send('angle', { index, angle }),
+        }
+      );
+      send('result', { data: research });
+    }, req.signal);
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { PAID_PLAN_IDS, PLANS, PaidPlanId, getStripeIds } from '@/lib/plans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -14,25 +15,6 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-// Map plan to Stripe product/price IDs
-const PLAN_MAPPING = {
-  starter: {
-    productId: 'prod_TXTkYzi88BPDuj',
-    priceId: 'price_1SaOmf8WNN2WVhxAiNIFJeh7',
-    name: 'Starter Pack (10 credits)',
-  },
-  pro: {
-    productId: 'prod_TXTl3bWMgFAott',
-    priceId: 'price_1SaOnV8WNN2WVhxANn4dQ7Ub',
-    name: 'Pro Pack (25 credits)',
-  },
-  unlimited: {
-    productId: 'prod_TXTmV6qQoKYc4N',
-    priceId: 'price_1SaOoz8WNN2WVhxA1exVFvOs',
-    name: 'Unlimited (999,999 credits)',
-  },
-};
-
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -51,13 +33,13 @@ export async function POST(req: NextRequest) {
       throw new AppError(400, 'Plan is required', 'MISSING_PLAN');
     }
 
-    // Validate plan is in our mapping
-    const validPlans = Object.keys(PLAN_MAPPING);
-    if (!validPlans.includes(plan)) {
-      throw new AppError(400, `Invalid plan. Must be one of: ${validPlans.join(', ')}`, 'INVALID_PLAN');
+    // Validate plan is one that can be bought
+    if (!(PAID_PLAN_IDS as readonly string[]).includes(plan)) {
+      throw new AppError(400, `Invalid plan. Must be one of: ${PAID_PLAN_IDS.join(', ')}`, 'INVALID_PLAN');
     }
 
-    const planInfo = PLAN_MAPPING[plan as keyof typeof PLAN_MAPPING];
+    // Price and product for the Stripe environment STRIPE_SECRET_KEY belongs to
+    const planInfo = getStripeIds(PLANS[plan as PaidPlanId]);
 
     // Get or create Stripe customer for user
     let customerId: string;
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logAction } from '@/lib/error-handler';
+import { releaseExpiredReservations } from '@/lib/credits';
+
+/**
+ * Vercel Cron Job - Refund credit reservations left held past their expiry
+ * (a crashed or timed-out analysis never got to commit or release its credit)
+ * Runs every 15 minutes; configured in vercel.json
+ */
+export async function GET(req: NextRequest) {
+  // Verify cron secret
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const released = await releaseExpiredReservations();
+    logAction('CRON_RESERVATIONS_RELEASED', -1, { released });
+
+    return NextResponse.json({
+      message: 'Expired credit reservations released',
+      released,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Cron release reservations error:', error);
+    logAction('CRON_RESERVATIONS_RELEASE_ERROR', -1, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      {
+        error: 'Failed to release credit reservations',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
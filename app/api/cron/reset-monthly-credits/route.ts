@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { logAction } from '@/lib/error-handler';
+import { setCredits } from '@/lib/credits';
+import { UNLIMITED_PLAN_IDS, isUnlimitedPlan } from '@/lib/plans';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -28,14 +30,14 @@ export async function GET(req: NextRequest) {
       .from('users')
       .select('id, email, subscription_plan, subscription_monthly_credits, subscription_current_period_end')
       .eq('subscription_status', 'active')
-      .eq('subscription_plan', 'unlimited');
+      .in('subscription_plan', UNLIMITED_PLAN_IDS);
 
     // Find OTHER plan users whose period has ended (Starter, Pro with period resets)
     const { data: periodUsers, error: periodError } = await supabase
       .from('users')
       .select('id, email, subscription_plan, subscription_monthly_credits, subscription_current_period_end')
       .eq('subscription_status', 'active')
-      .neq('subscription_plan', 'unlimited')
+      .not('subscription_plan', 'in', `(${UNLIMITED_PLAN_IDS.join(',')})`)
       .lte('subscription_current_period_end', now.toISOString());
 
     if (unlimitedError) {
@@ -61,7 +63,8 @@ export async function GET(req: NextRequest) {
 
     logAction('CRON_PROCESSING_SUBSCRIPTIONS', -1, { count: users.length, unlimited: unlimitedUsers?.length || 0, period: periodUsers?.length || 0 });
 
-    // Reset credits for each user
+    // Reset credits for each user; the month keys the ledger entry so a rerun doesn't add a second one
+    const month = now.toISOString().substring(0, 7);
     const results: any[] = [];
     let successCount = 0;
     let failureCount = 0;
@@ -69,7 +72,7 @@ export async function GET(req: NextRequest) {
     for (const user of users) {
       try {
         // Only reset UNLIMITED users - they pay monthly and need credits refreshed
-        if (user.subscription_plan !== 'unlimited') {
+        if (!isUnlimitedPlan(user.subscription_plan)) {
           logAction('CRON_SKIP_NON_UNLIMITED', user.id, {});
           results.push({
             userId: user.id,
@@ -81,10 +84,16 @@ export async function GET(req: NextRequest) {
         }
 
         // For unlimited users, ALWAYS set credits to null (not subscription_monthly_credits which might be 0)
+        await setCredits(user.id, 'reset', null, {
+          referenceType: 'subscription_period',
+          referenceId: month,
+          idempotencyKey: `monthly_reset:${user.id}:${month}`,
+          note: 'unlimited monthly reset',
+        });
+
         const { error: updateError } = await supabase
           .from('users')
           .update({
-            credits: null, // Always null for unlimited, not subscription_monthly_credits
             subscription_current_period_start: now.toISOString(),
             subscription_current_period_end: null, // No period end for unlimited
             updated_at: now.toISOString(),
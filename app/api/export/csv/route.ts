@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { createClient } from '@supabase/supabase-js';
 import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { hasEntitlement, plansWithEntitlement } from '@/lib/plans';
+import { commitCredits, withReservedCredits } from '@/lib/credits';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -11,7 +13,8 @@ const supabase = createClient(
 
 /**
  * Export research data to CSV
- * Available for Pro ($19) and Unlimited ($99) plans
+ * Available on plans with the csv_export entitlement (see lib/plans.ts)
+ * Charges the bulk_row cost for every exported row
  * POST /api/export/csv
  * Body: { researchIds?: string[] } - optional, exports all if not specified
  */
@@ -44,16 +47,18 @@ export async function POST(req: NextRequest) {
     }
 
     // Check if plan has CSV export permission
-    const allowedPlans = ['pro', 'unlimited'];
     const userPlan = userData.subscription_plan || 'free';
 
-    if (!allowedPlans.includes(userPlan)) {
+    if (!hasEntitlement(userPlan, 'csv_export')) {
+      const allowedPlans = plansWithEntitlement('csv_export')
+        .map((plan) => `${plan.name} ($${plan.priceUsd})`)
+        .join(' and ');
       logAction('CSV_EXPORT_PLAN_NOT_ALLOWED', parseInt(userId), { 
         plan: userPlan,
-        message: 'CSV export requires Pro plan or higher'
+        message: 'CSV export requires the csv_export entitlement'
       });
       return NextResponse.json(
-        { error: 'CSV export is only available for Pro ($19) and Unlimited ($99) plans. Upgrade your account to export your research data.' },
+        { error: `CSV export is only available for ${allowedPlans} plans. Upgrade your account to export your research data.` },
         { status: 403 }
       );
     }
@@ -91,8 +96,17 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Convert to CSV format
-    const csvData = convertToCSV(researches);
+    // Convert to CSV format, charging per exported row
+    const csvData = await withReservedCredits(
+      parseInt(userId),
+      'bulk_row',
+      async (reservation) => {
+        const csv = convertToCSV(researches);
+        await commitCredits(reservation, 'csv_export');
+        return csv;
+      },
+      researches.length
+    );
 
     // Log action
     logAction('CSV_EXPORT_SUCCESS', parseInt(userId), {
@@ -110,6 +124,10 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return handleError(error);
+    }
+
     console.error('CSV Export error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
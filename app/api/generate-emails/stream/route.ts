@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { runEmailGeneration } from '@/lib/research';
+import { createEventStream } from '@/lib/event-stream';
+import {
+  handleError,
+  AppError,
+  checkRateLimit,
+} from '@/lib/error-handler';
+import { GenerateEmailsSchema, validateInput } from '@/lib/validation';
+import { getUserPlan } from '@/lib/db';
+import { getPlan } from '@/lib/plans';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Same generation as POST /api/generate-emails, streamed as Server-Sent Events:
+ * stage, variant and followUp events while it runs, then result (or error)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Authenticate
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id);
+
+    // Rate limiting - shares the bucket with the non-streaming endpoint
+    const { rateLimits } = getPlan(await getUserPlan(userId));
+    checkRateLimit(`generate-emails:${userId}`, rateLimits.generateEmails, 3600000); // per hour, by plan
+
+    // Parse and validate request body
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    // Validate against schema
+    const input = await validateInput(GenerateEmailsSchema, body);
+
+    return createEventStream(async (send, signal) => {
+      const emails = await runEmailGeneration(
+        userId,
+        input,
+        {
+          signal,
+          onStage: (stage, message) => send('stage', { stage, message }),
+          onVariant: (variant, index) => send('variant', { index, variant }),
+          onFollowUp: (followUp, index) => send('followUp', { index, followUp }),
+        }
+      );
+      send('result', { data: emails });
+    }, req.signal);
+  } catch (error) {
+    return handleError(error);
+  }
+}
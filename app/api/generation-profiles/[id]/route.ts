@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteGenerationProfile, getGenerationProfile, updateGenerationProfile } from '@/lib/db';
+import { handleError, AppError, logAction, withRetry } from '@/lib/error-handler';
+import { UpdateSavedProfileSchema, validateInput } from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+async function authenticate(params: { id: string }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+  }
+
+  const profileId = Number(params.id);
+  if (!Number.isInteger(profileId) || profileId <= 0) {
+    throw new AppError(400, 'Invalid profile ID', 'INVALID_ID');
+  }
+
+  return { userId: parseInt(session.user.id, 10), profileId };
+}
+
+// GET /api/generation-profiles/[id] - Get one saved profile
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId, profileId } = await authenticate(params);
+
+    const profile = await withRetry(() => getGenerationProfile(userId, profileId), 2);
+    if (!profile) {
+      throw new AppError(404, 'Generation profile not found', 'NOT_FOUND');
+    }
+
+    return NextResponse.json({ success: true, data: profile });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// PATCH /api/generation-profiles/[id] - Rename, change settings or make default
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId, profileId } = await authenticate(params);
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    const fields = await validateInput(UpdateSavedProfileSchema, body);
+
+    let updated;
+    try {
+      updated = await updateGenerationProfile(userId, profileId, fields);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new AppError(409, 'A profile with this name already exists', 'DUPLICATE_NAME');
+      }
+      throw error;
+    }
+    if (!updated) {
+      throw new AppError(404, 'Generation profile not found', 'NOT_FOUND');
+    }
+
+    logAction('GENERATION_PROFILE_UPDATED', userId, { profileId, fields: Object.keys(fields) });
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// DELETE /api/generation-profiles/[id] - Delete a saved profile
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId, profileId } = await authenticate(params);
+
+    const deleted = await deleteGenerationProfile(userId, profileId);
+    if (!deleted) {
+      throw new AppError(404, 'Generation profile not found', 'NOT_FOUND');
+    }
+
+    logAction('GENERATION_PROFILE_DELETED', userId, { profileId });
+
+    return NextResponse.json({ success: true, message: 'Profile deleted' });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createGenerationProfile, listGenerationProfiles } from '@/lib/db';
+import { handleError, AppError, checkRateLimit, logAction, withRetry } from '@/lib/error-handler';
+import { SavedProfileSchema, validateInput } from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+// Saved profiles per user; plenty for a handful of personas and campaigns
+const MAX_PROFILES = 20;
+
+// GET /api/generation-profiles - List the user's saved generation profiles
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const profiles = await withRetry(() => listGenerationProfiles(userId), 2);
+
+    return NextResponse.json({ success: true, data: profiles });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// POST /api/generation-profiles - Save a new generation profile
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    checkRateLimit(`create-profile:${userId}`, 20, 3600000); // 20 per hour
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    const { name, profile, isDefault } = await validateInput(SavedProfileSchema, body);
+
+    const existing = await withRetry(() => listGenerationProfiles(userId), 2);
+    if (existing.length >= MAX_PROFILES) {
+      throw new AppError(400, `You can save up to ${MAX_PROFILES} profiles`, 'PROFILE_LIMIT');
+    }
+    if (existing.some((saved) => saved.name === name)) {
+      throw new AppError(409, 'A profile with this name already exists', 'DUPLICATE_NAME');
+    }
+
+    let saved;
+    try {
+      saved = await createGenerationProfile(userId, { name, profile, isDefault });
+    } catch (error: any) {
+      // Unique (user_id, name) catches concurrent creates the check above missed
+      if (error?.code === '23505') {
+        throw new AppError(409, 'A profile with this name already exists', 'DUPLICATE_NAME');
+      }
+      throw error;
+    }
+
+    logAction('GENERATION_PROFILE_CREATED', userId, { profileId: saved.id, name, isDefault });
+
+    return NextResponse.json({ success: true, data: saved }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteKnowledgeItem, updateKnowledgeItem } from '@/lib/db';
+import { handleError, AppError, logAction } from '@/lib/error-handler';
+import { UpdateKnowledgeItemSchema, validateInput } from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+async function authenticate(params: { id: string }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+  }
+
+  const itemId = Number(params.id);
+  if (!Number.isInteger(itemId) || itemId <= 0) {
+    throw new AppError(400, 'Invalid knowledge item ID', 'INVALID_ID');
+  }
+
+  return { userId: parseInt(session.user.id, 10), itemId };
+}
+
+// PATCH /api/knowledge/[id] - Edit a knowledge item
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId, itemId } = await authenticate(params);
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    const fields = await validateInput(UpdateKnowledgeItemSchema, body);
+    const updated = await updateKnowledgeItem(userId, itemId, fields);
+    if (!updated) {
+      throw new AppError(404, 'Knowledge item not found', 'NOT_FOUND');
+    }
+
+    logAction('KNOWLEDGE_ITEM_UPDATED', userId, { itemId, fields: Object.keys(fields) });
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// DELETE /api/knowledge/[id] - Remove a knowledge item
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId, itemId } = await authenticate(params);
+
+    const deleted = await deleteKnowledgeItem(userId, itemId);
+    if (!deleted) {
+      throw new AppError(404, 'Knowledge item not found', 'NOT_FOUND');
+    }
+
+    logAction('KNOWLEDGE_ITEM_DELETED', userId, { itemId });
+
+    return NextResponse.json({ success: true, message: 'Knowledge item deleted' });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { createKnowledgeItem, getKnowledgeItems } from '@/lib/db';
+import { handleError, AppError, checkRateLimit, logAction, withRetry } from '@/lib/error-handler';
+import { KnowledgeItemSchema, validateInput } from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+// Retrieval scores every item on each analysis, so keep knowledge bases small
+const MAX_ITEMS = 100;
+
+// GET /api/knowledge - List the user's knowledge base
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    const items = await withRetry(() => getKnowledgeItems(userId), 2);
+
+    return NextResponse.json({ success: true, data: items });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+// POST /api/knowledge - Add an offering, customer story, metric or differentiator
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id, 10);
+    checkRateLimit(`create-knowledge:${userId}`, 50, 3600000); // 50 per hour
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    const item = await validateInput(KnowledgeItemSchema, body);
+
+    const existing = await withRetry(() => getKnowledgeItems(userId), 2);
+    if (existing.length >= MAX_ITEMS) {
+      throw new AppError(400, `Your knowledge base can hold up to ${MAX_ITEMS} items`, 'KNOWLEDGE_LIMIT');
+    }
+
+    const saved = await createKnowledgeItem(userId, item);
+
+    logAction('KNOWLEDGE_ITEM_CREATED', userId, { itemId: saved.id, kind: saved.kind });
+
+    return NextResponse.json({ success: true, data: saved }, { status: 201 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
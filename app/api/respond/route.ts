@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { handleResponse } from '@/lib/gemini';
-import { saveUserResponse, saveGlobalResponse } from '@/lib/db';
+import { handleResponse, PromptRun } from '@/lib/gemini';
+import type { HandledResponse } from '@/lib/llm/schemas';
+import { getUserPlan, getUserResearchById, saveUserResponse, saveGlobalResponse } from '@/lib/db';
 import {
   handleError,
   AppError,
@@ -11,6 +12,8 @@ import {
   withRetry,
 } from '@/lib/error-handler';
 import { RespondSchema, validateInput, checkMaliciousPatterns } from '@/lib/validation';
+import { getPlan } from '@/lib/plans';
+import { commitCredits, withReservedCredits } from '@/lib/credits';
 
 export async function POST(req: NextRequest) {
   try {
@@ -23,8 +26,9 @@ export async function POST(req: NextRequest) {
 
     const userId = parseInt(session.user.id);
 
-    // Rate limiting - respond is free so allow more requests
-    checkRateLimit(`respond:${userId}`, 50, 3600000); // 50 requests per hour
+    // Rate limiting - respond is cheap (free by default) so allow more requests
+    const { rateLimits } = getPlan(await getUserPlan(userId));
+    checkRateLimit(`respond:${userId}`, rateLimits.respond, 3600000); // per hour, by plan
 
     // Parse and validate request body
     let body: any;
@@ -35,7 +39,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate against schema
-    const { prospectResponse, originalEmail, angleUsed } = await validateInput(RespondSchema, body);
+    const { prospectResponse, originalEmail, angleUsed, researchId } = await validateInput(RespondSchema, body);
 
     // Check for malicious patterns
     const maliciousCheck = checkMaliciousPatterns(prospectResponse);
@@ -44,76 +48,91 @@ export async function POST(req: NextRequest) {
       throw new AppError(400, 'Input contains potentially malicious content', 'MALICIOUS_INPUT');
     }
 
-    // Analyze response with Gemini - with retry
-    let analysis: any;
-    try {
-      analysis = await withRetry(
-        () => handleResponse(originalEmail, prospectResponse, angleUsed),
-        2,
-        1000
-      );
-    } catch (error) {
-      logAction('RESPONSE_ANALYSIS_FAILED', userId, { error: String(error) });
-      throw new AppError(
-        503,
-        'AI analysis service temporarily unavailable. Please try again later.',
-        'AI_SERVICE_ERROR'
-      );
+    // Only link replies to the user's own research
+    if (researchId !== undefined) {
+      const research = await withRetry(() => getUserResearchById(userId, researchId), 2);
+      if (!research) {
+        throw new AppError(404, 'Research not found', 'NOT_FOUND');
+      }
     }
 
-    if (!analysis) {
-      throw new AppError(
-        500,
-        'Analysis returned no valid response. Please try again.',
-        'EMPTY_ANALYSIS'
-      );
-    }
+    // Charged at the respond price (see lib/credit-pricing.ts), released if no replies come back
+    return await withReservedCredits(userId, 'respond', async (reservation) => {
+      // Analyze response with Gemini - with retry
+      let run: PromptRun<HandledResponse>;
+      try {
+        run = await withRetry(
+          () => handleResponse(originalEmail, prospectResponse, angleUsed, { userId }),
+          2,
+          1000
+        );
+      } catch (error) {
+        logAction('RESPONSE_ANALYSIS_FAILED', userId, { error: String(error) });
+        throw new AppError(
+          503,
+          'AI analysis service temporarily unavailable. Please try again later.',
+          'AI_SERVICE_ERROR'
+        );
+      }
 
-    // Save to user responses - with error handling but non-blocking
-    try {
-      await withRetry(
-        () =>
-          saveUserResponse(
-            userId,
-            angleUsed || 'unknown',
-            analysis.analysis?.objectionType || '',
-            analysis.analysis?.sentiment || '',
-            analysis.analysis?.urgency || '',
-            originalEmail || '',
-            prospectResponse,
-            analysis.replies
-          ),
-        1
-      );
-    } catch (error) {
-      logAction('RESPONSE_SAVE_FAILED', userId, { error: String(error) });
-      // Don't fail the request - analysis is more important than saving
-    }
+      const analysis = run.data;
+      if (!analysis) {
+        throw new AppError(
+          500,
+          'Analysis returned no valid response. Please try again.',
+          'EMPTY_ANALYSIS'
+        );
+      }
 
-    // Save to global responses - with error handling but non-blocking
-    try {
-      await withRetry(
-        () =>
-          saveGlobalResponse(
-            angleUsed || 'unknown',
-            analysis.analysis?.objectionType || '',
-            analysis.analysis?.sentiment || '',
-            analysis.analysis?.urgency || ''
-          ),
-        1
-      );
-    } catch (error) {
-      logAction('GLOBAL_RESPONSE_SAVE_FAILED', userId, { error: String(error) });
-      // Don't fail the request - this is for benchmarks
-    }
+      // Save to user responses - with error handling but non-blocking
+      let responseId: number | undefined;
+      try {
+        responseId = await withRetry(
+          () =>
+            saveUserResponse(
+              userId,
+              angleUsed || 'unknown',
+              analysis.analysis.objectionType,
+              analysis.analysis.sentiment,
+              analysis.analysis.urgency,
+              originalEmail || '',
+              prospectResponse,
+              analysis.replies,
+              { researchId, promptVersion: run.promptVersion, model: run.model }
+            ),
+          1
+        );
+      } catch (error) {
+        logAction('RESPONSE_SAVE_FAILED', userId, { error: String(error) });
+        // Don't fail the request - analysis is more important than saving
+      }
+      await commitCredits(reservation, 'response', responseId);
 
-    logAction('RESPONSE_ANALYSIS_SUCCESS', userId, {
-      sentiment: analysis.analysis?.sentiment,
-    });
+      // Save to global responses - with error handling but non-blocking
+      try {
+        await withRetry(
+          () =>
+            saveGlobalResponse(
+              angleUsed || 'unknown',
+              analysis.analysis.objectionType,
+              analysis.analysis.sentiment,
+              analysis.analysis.urgency
+            ),
+          1
+        );
+      } catch (error) {
+        logAction('GLOBAL_RESPONSE_SAVE_FAILED', userId, { error: String(error) });
+        // Don't fail the request - this is for benchmarks
+      }
+
+      logAction('RESPONSE_ANALYSIS_SUCCESS', userId, {
+        sentiment: analysis.analysis.sentiment,
+      });
 
-    return NextResponse.json({
-      success: true,
-      data: analysis,
+      return NextResponse.json({
+        success: true,
+        data: analysis,
+      });
     });
   } catch (error) {
     return handleError(error);
@@ -5,8 +5,13 @@ import {
   handleError,
   AppError,
   logAction,
+  withRetry,
 } from '@/lib/error-handler';
 import { z } from 'zod';
+import { analyzeSpamRisk } from '@/lib/spam-check';
+import { getSpamSettings } from '@/lib/db';
+import { commitCredits, releaseCredits, reserveCredits } from '@/lib/credits';
+import { getPlan } from '@/lib/plans';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize Supabase client for server-side operations
@@ -38,13 +43,6 @@ function hashSensitiveValue(value: string): string {
   return `hash_${Math.abs(hash).toString(36).substring(0, 8)}`;
 }
 
-// Rate limits per plan (emails per month)
-const RATE_LIMITS = {
-  free: 10,
-  pro: 500,
-  unlimited: 999999,
-};
-
 // Initialize Resend
 const RESEND_API_KEY = process.env.RESEND_API_KEY;
 const RESEND_FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'noreply@mail.readytorelease.online';
@@ -120,8 +118,8 @@ export async function POST(req: NextRequest) {
       throw new AppError(404, 'User not found', 'USER_NOT_FOUND');
     }
 
-    const plan = (userData.subscription_plan || 'free') as keyof typeof RATE_LIMITS;
-    const limit = RATE_LIMITS[plan] || RATE_LIMITS.free;
+    // Emails per month for the plan
+    const limit = getPlan(userData.subscription_plan).monthlySendLimit;
 
     // Check rate limit
     const emailsSentThisMonth = await getEmailsSentThisMonth(userId);
@@ -133,6 +131,33 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Spam-risk check against the user's threshold (warn by default, block if they opted in)
+    const spamReport = analyzeSpamRisk(validatedData);
+    // Fail closed: without the user's settings we can't know whether they block risky sends
+    const spamSettings = await withRetry(() => getSpamSettings(userId), 2).catch((error) => {
+      logAction('SPAM_SETTINGS_UNAVAILABLE', userId, { error: String(error) });
+      throw new AppError(503, 'Could not load your spam-check settings. Please try again.', 'SPAM_SETTINGS_UNAVAILABLE');
+    });
+    const spamFlagged = spamSettings.mode !== 'off' && spamReport.score >= spamSettings.threshold;
+
+    if (spamFlagged && spamSettings.mode === 'block') {
+      logAction('EMAIL_BLOCKED_SPAM_RISK', userId, {
+        recipientHash: hashSensitiveValue(validatedData.to),
+        score: spamReport.score,
+        threshold: spamSettings.threshold,
+      });
+      throw new AppError(
+        422,
+        `Email not sent: spam risk ${spamReport.score}/100 is at or above your limit of ${spamSettings.threshold}. ` +
+          spamReport.findings.slice(0, 3).map((finding) => finding.message).join('. '),
+        'SPAM_RISK_TOO_HIGH'
+      );
+    }
+
+    // Hold the send price (see lib/credit-pricing.ts) until Resend accepts the email;
+    // a request that dies before settling is refunded by the reservation sweeper
+    const reservation = await reserveCredits(parseInt(userId), 'send');
+
     // Escape user inputs for HTML context
     const escapedUserEmail = escapeHtml(userEmail);
     const escapedBody = escapeHtml(validatedData.body);
@@ -208,23 +233,23 @@ export async function POST(req: NextRequest) {
         status: response.status,
       });
     } else {
+      // A 2xx means Resend accepted the email; an unreadable body only costs us the message id
       try {
         const resendResponse = await response.json();
-        resendMessageId = resendResponse.id;
-
-        logAction('EMAIL_SENT', userId, {
-          recipientHash: hashSensitiveValue(validatedData.to),
-          subjectHash: hashSensitiveValue(validatedData.subject),
-          resendId: resendMessageId,
-          status: 'sent',
-        });
+        resendMessageId = resendResponse.id ?? null;
       } catch (parseError) {
-        sendError = 'Failed to parse response';
         logAction('EMAIL_RESPONSE_PARSE_ERROR', userId, {
           recipientHash: hashSensitiveValue(validatedData.to),
           error: String(parseError),
         });
       }
+
+      logAction('EMAIL_SENT', userId, {
+        recipientHash: hashSensitiveValue(validatedData.to),
+        subjectHash: hashSensitiveValue(validatedData.subject),
+        resendId: resendMessageId,
+        status: 'sent',
+      });
     }
 
     // Save to database regardless of send status
@@ -251,8 +276,10 @@ export async function POST(req: NextRequest) {
 
     // Return response
     if (sendError) {
+      await releaseCredits(reservation, 'EMAIL_SEND_ERROR');
       throw new AppError(500, `Failed to send email: ${sendError}`, 'EMAIL_SEND_ERROR');
     }
+    await commitCredits(reservation, 'email_send', resendMessageId ?? undefined);
 
     return NextResponse.json(
       {
@@ -262,6 +289,7 @@ export async function POST(req: NextRequest) {
         emailsSent: emailsSentThisMonth + 1,
         limit,
         from: RESEND_FROM_EMAIL,
+        spamCheck: { ...spamReport, warning: spamFlagged, threshold: spamSettings.threshold },
       },
       { status: 200 }
     );
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { analyzeSpamRisk } from '@/lib/spam-check';
+import { getSpamSettings } from '@/lib/db';
+import { handleError, AppError, checkRateLimit, withRetry } from '@/lib/error-handler';
+import { SpamCheckSchema, validateInput } from '@/lib/validation';
+
+/**
+ * Score an email draft for spam-filter risk, with the user's send threshold
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Authenticate
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = session.user.id;
+
+    // Rate limiting - called while editing, so allow plenty
+    checkRateLimit(`spam-check:${userId}`, 300, 3600000); // 300 requests per hour
+
+    // Parse and validate request body
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    const { subject, body: emailBody } = await validateInput(SpamCheckSchema, body);
+    const settings = await withRetry(() => getSpamSettings(userId), 2);
+    const report = analyzeSpamRisk({ subject, body: emailBody });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...report,
+        settings,
+        // What sending this draft would do
+        action: settings.mode === 'off' || report.score < settings.threshold ? 'send' : settings.mode,
+      },
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
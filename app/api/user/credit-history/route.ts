@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCreditLedger, getCreditReservations, getUserPayments, HistoryRange } from '@/lib/db';
+import { handleError, AppError, logAction, withRetry } from '@/lib/error-handler';
+import {
+  CREDIT_HISTORY_CSV_HEADER,
+  CreditHistoryCursor,
+  CreditHistoryType,
+  creditHistoryCsvRows,
+  pageCreditHistory,
+  reservationIds,
+} from '@/lib/credit-history';
+import {
+  CreditHistoryCursorSchema,
+  CreditHistoryQuery,
+  CreditHistoryQuerySchema,
+  validateInput,
+} from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+// Each page reads size + 1 rows per source, and PostgREST returns at most 1000
+const CSV_PAGE_SIZE = 999;
+
+function encodeCursor(cursor: CreditHistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string | undefined): CreditHistoryCursor {
+  if (!value) return {};
+  try {
+    const parsed = CreditHistoryCursorSchema.safeParse(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')));
+    if (parsed.success) return parsed.data as CreditHistoryCursor;
+  } catch {
+    // Not base64 JSON; reported below
+  }
+  throw new AppError(400, 'Invalid cursor', 'INVALID_INPUT');
+}
+
+async function fetchHistoryPage(
+  userId: number,
+  range: HistoryRange,
+  type: CreditHistoryType | undefined,
+  size: number,
+  cursor: CreditHistoryCursor
+) {
+  const kinds = type && type !== 'payment' ? [type] : undefined;
+
+  const [ledger, payments] = await Promise.all([
+    type === 'payment'
+      ? Promise.resolve([])
+      : withRetry(() => getCreditLedger(userId, { ...range, limit: size + 1, after: cursor.ledger }, kinds), 2),
+    type && type !== 'payment'
+      ? Promise.resolve([])
+      : withRetry(() => getUserPayments(userId, { ...range, limit: size + 1, after: cursor.payments }), 2),
+  ]);
+  const reservations = await withRetry(() => getCreditReservations(userId, reservationIds(ledger)), 2);
+  return pageCreditHistory(ledger, reservations, payments, size, cursor);
+}
+
+/**
+ * Credit movements and Stripe payments, newest first, PAGE_SIZE at a time
+ * GET /api/user/credit-history?from=YYYY-MM-DD&to=YYYY-MM-DD&type=spend&cursor=...
+ * Pass nextCursor back as cursor for the next page; it is null on the last one.
+ * format=csv streams every matching entry, fetching page by page.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = parseInt(session.user.id);
+
+    let query: CreditHistoryQuery;
+    try {
+      query = await validateInput(CreditHistoryQuerySchema, Object.fromEntries(req.nextUrl.searchParams));
+    } catch (error) {
+      throw new AppError(400, error instanceof Error ? error.message : 'Invalid query', 'INVALID_INPUT');
+    }
+
+    // Both ends are whole days; the range passed on is [from, day after to)
+    const range = {
+      from: query.from ? new Date(`${query.from}T00:00:00Z`).toISOString() : undefined,
+      to: query.to ? new Date(new Date(`${query.to}T00:00:00Z`).getTime() + DAY_MS).toISOString() : undefined,
+    };
+    const { type } = query;
+
+    if (query.format === 'csv') {
+      const fileName = `coldmailai-credit-history-${new Date().toISOString().split('T')[0]}.csv`;
+      const encoder = new TextEncoder();
+      let cursor: CreditHistoryCursor | null = {};
+      let entries = 0;
+
+      // One page per pull, so a long history is never held in memory at once
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(CREDIT_HISTORY_CSV_HEADER));
+        },
+        async pull(controller) {
+          try {
+            const page = await fetchHistoryPage(userId, range, type, CSV_PAGE_SIZE, cursor ?? {});
+            const rows = creditHistoryCsvRows(page.entries);
+            if (rows.length > 0) controller.enqueue(encoder.encode(`\n${rows.join('\n')}`));
+            entries += rows.length;
+            cursor = page.nextCursor;
+
+            if (!cursor) {
+              logAction('CREDIT_HISTORY_EXPORTED', userId, { ...query, entries });
+              controller.close();
+            }
+          } catch (error) {
+            console.error('Credit history export error:', error);
+            controller.error(error);
+          }
+        },
+      });
+
+      return new NextResponse(stream, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv;charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const page = await fetchHistoryPage(userId, range, type, PAGE_SIZE, decodeCursor(query.cursor));
+
+    logAction('CREDIT_HISTORY_RETRIEVED', userId, { ...query, entries: page.entries.length });
+
+    return NextResponse.json({
+      success: true,
+      data: page.entries,
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    });
+  } catch (error) {
+    return handleError(error);
+  }
+}
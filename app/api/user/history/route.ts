@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getUserResearchHistory, getUserResponseHistory, deleteUserResearch, deleteUserResponse } from '@/lib/db';
+import {
+    getUserResearchHistory,
+    getUserResponseHistory,
+    getUserResearchById,
+    getUserResponseById,
+    deleteUserResearch,
+    deleteUserResponse,
+} from '@/lib/db';
 import { createClient } from '@supabase/supabase-js';
 
 const supabase = createClient(
@@ -18,6 +25,28 @@ export async function GET(req: NextRequest) {
         }
 
         const userId = parseInt(session.user.id);
+        const { searchParams } = new URL(req.url);
+        const type = searchParams.get('type'); // 'research' or 'response', with id: a single record
+        const id = searchParams.get('id');
+
+        if (type && id) {
+            const recordId = parseInt(id);
+            const record =
+                type === 'research'
+                    ? await getUserResearchById(userId, recordId)
+                    : type === 'response'
+                      ? await getUserResponseById(userId, recordId)
+                      : undefined;
+
+            if (record === undefined) {
+                return NextResponse.json({ error: 'Invalid type' }, { status: 400 });
+            }
+            if (!record) {
+                return NextResponse.json({ error: 'Record not found' }, { status: 404 });
+            }
+            return NextResponse.json({ data: record });
+        }
+
         const [researchHistory, responseHistory] = await Promise.all([
             getUserResearchHistory(userId),
             getUserResponseHistory(userId),
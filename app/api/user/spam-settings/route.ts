@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getSpamSettings, updateSpamSettings, SpamSettings } from '@/lib/db';
+import { handleError, AppError, logAction, withRetry } from '@/lib/error-handler';
+import { SpamSettingsSchema, validateInput } from '@/lib/validation';
+
+// Force dynamic rendering (required because we use getServerSession)
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const settings = await withRetry(() => getSpamSettings(session.user.id), 2);
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      throw new AppError(401, 'Unauthorized. Please log in.', 'UNAUTHORIZED');
+    }
+
+    const userId = session.user.id;
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AppError(400, 'Invalid JSON format', 'INVALID_JSON');
+    }
+
+    // Both fields are required by the schema
+    const settings = (await validateInput(SpamSettingsSchema, body)) as SpamSettings;
+    await updateSpamSettings(userId, settings);
+
+    logAction('SPAM_SETTINGS_UPDATED', userId, settings);
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getUserCredits } from '@/lib/db';
+import { getPricingTable, getPricingTables } from '@/lib/credit-pricing';
 import { createClient } from '@supabase/supabase-js';
 import {
   handleError,
@@ -104,6 +105,9 @@ export async function GET(req: NextRequest) {
       responsesCount,
       researchCount,
       subscriptionPlan,
+      // Credit cost per action on the user's plan, and on every plan for comparison
+      pricing: getPricingTable(subscriptionPlan),
+      pricingByPlan: getPricingTables(),
       email: session.user.email,
     });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { logAction } from '@/lib/error-handler';
+import { setCredits } from '@/lib/credits';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -47,10 +48,17 @@ export async function POST(req: NextRequest) {
         const periodEnd = new Date();
         periodEnd.setMonth(periodEnd.getMonth() + 1);
 
+        // Keyed on the period that ended, so a rerun doesn't reset twice
+        await setCredits(user.id, 'reset', monthlyCredits, {
+          referenceType: 'subscription_period',
+          referenceId: user.subscription_current_period_end,
+          idempotencyKey: `period_reset:${user.id}:${user.subscription_current_period_end}`,
+          note: `${user.subscription_plan} monthly reset`,
+        });
+
         const { error: updateError } = await supabase
           .from('users')
           .update({
-            credits: monthlyCredits,
             subscription_current_period_start: periodStart.toISOString(),
             subscription_current_period_end: periodEnd.toISOString(),
             updated_at: now.toISOString(),
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import { logAction } from '@/lib/error-handler';
+import { setCredits } from '@/lib/credits';
+import { getPlan, isUnlimitedPlan } from '@/lib/plans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -49,14 +51,8 @@ export async function POST(req: NextRequest) {
     // Get subscription plan from Stripe metadata
     const plan = subscription.metadata?.plan || 'unknown';
 
-    // Map plan to monthly credits
-    const creditMap: Record<string, number | null> = {
-      starter: 10,
-      pro: 25,
-      unlimited: null, // null = unlimited
-    };
-
-    const monthlyCredits = plan in creditMap ? creditMap[plan] : 0;
+    // Monthly allowance from the plan catalogue; null is unlimited, unknown plans get 0
+    const monthlyCredits = getPlan(plan).monthlyCredits;
 
     // Update user subscription info
     const { error: updateError } = await supabase
@@ -66,9 +62,8 @@ export async function POST(req: NextRequest) {
         subscription_plan: plan,
         stripe_subscription_id: subscription.id,
         subscription_current_period_start: periodStart.toISOString(),
-        subscription_current_period_end: plan === 'unlimited' ? null : periodEnd.toISOString(),
-        subscription_monthly_credits: monthlyCredits === null ? null : (monthlyCredits as number),
-        credits: monthlyCredits, // null for unlimited, number for others
+        subscription_current_period_end: isUnlimitedPlan(plan) ? null : periodEnd.toISOString(),
+        subscription_monthly_credits: monthlyCredits,
         updated_at: new Date().toISOString(),
       })
       .eq('id', user.id);
@@ -78,6 +73,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: updateError.message }, { status: 500 });
     }
 
+    // null for unlimited, number for others; once per plan and billing period
+    await setCredits(user.id, 'reset', monthlyCredits, {
+      referenceType: 'subscription',
+      referenceId: subscription.id,
+      idempotencyKey: `subscription:${subscription.id}:${plan}:${subscription.current_period_start}`,
+      note: `${plan} plan allowance`,
+    });
+
     logAction('SUBSCRIPTION_UPDATED', user.id, {
       status,
       plan,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import { AppError, handleError, logAction } from '@/lib/error-handler';
+import { addCredits, setCredits } from '@/lib/credits';
+import { findPlanByStripeId, getPlan } from '@/lib/plans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -258,23 +260,15 @@ async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
       return;
     }
 
-    // Query stripe_products table for credits
-    let query = supabase.from('stripe_products').select('credit_value');
+    // Credits come from the plan catalogue, matched on price first, then product
+    const purchasedPlan = findPlanByStripeId({ priceId, productId });
 
-    if (priceId) {
-      query = query.eq('stripe_price_id', priceId);
-    } else if (productId) {
-      query = query.eq('stripe_product_id', productId);
+    if (!purchasedPlan) {
+      logAction('PRODUCT_NOT_IN_CATALOGUE', user.id, { productId, priceId });
+      throw new AppError(404, 'Product is not in the plan catalogue', 'PRODUCT_NOT_FOUND');
     }
 
-    const { data: product, error: productError } = await query.single();
-
-    if (productError || !product) {
-      logAction('PRODUCT_NOT_IN_DB', user.id, { productId, priceId });
-      throw new AppError(404, 'Product mapping not found in database', 'PRODUCT_NOT_FOUND');
-    }
-
-    const creditsToAdd = product.credit_value;
+    const creditsToAdd = purchasedPlan.purchaseCredits;
 
     logAction('PAYMENT_PROCESSING', user.id, {
       paymentIntentId: paymentIntent.id,
@@ -283,26 +277,23 @@ async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
       expectedNewTotal: user.credits + creditsToAdd,
     });
 
-    // Update user credits - use a direct update with returning
-    const { data: updatedUser, error: updateError } = await supabase
-      .from('users')
-      .update({ 
-        credits: user.credits + creditsToAdd,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', user.id)
-      .select('credits')
-      .single();
-
-    if (updateError) {
-      logAction('CREDITS_UPDATE_ERROR', user.id, { error: updateError.message });
+    // Add credits through the ledger; keyed on the payment intent so a retried webhook adds them once
+    let newCredits: number | null;
+    try {
+      newCredits = await addCredits(user.id, 'purchase', creditsToAdd, {
+        referenceType: 'payment',
+        referenceId: paymentIntent.id,
+        idempotencyKey: `payment_intent:${paymentIntent.id}`,
+      });
+    } catch (updateError) {
+      logAction('CREDITS_UPDATE_ERROR', user.id, { error: String(updateError) });
       throw updateError;
     }
 
     logAction('CREDITS_UPDATED', user.id, {
       paymentIntentId: paymentIntent.id,
       creditsAdded: creditsToAdd,
-      newCredits: updatedUser?.credits || (user.credits + creditsToAdd),
+      newCredits,
     });
 
     // Create payment record in payments table
@@ -451,23 +442,15 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
       return;
     }
 
-    // Query stripe_products table for credits
-    let query = supabase.from('stripe_products').select('credit_value');
-
-    if (priceId) {
-      query = query.eq('stripe_price_id', priceId);
-    } else if (productId) {
-      query = query.eq('stripe_product_id', productId);
-    }
+    // Credits come from the plan catalogue, matched on price first, then product
+    const purchasedPlan = findPlanByStripeId({ priceId, productId });
 
-    const { data: product, error: productError } = await query.single();
-
-    if (productError || !product) {
-      logAction('PRODUCT_NOT_IN_DB', userId, { productId, priceId, productError: productError?.message });
+    if (!purchasedPlan) {
+      logAction('PRODUCT_NOT_IN_CATALOGUE', userId, { productId, priceId });
       return;
     }
 
-    const creditsToAdd = product.credit_value;
+    const creditsToAdd = purchasedPlan.purchaseCredits;
 
     // Extract payment intent ID - handle both string and object formats
     let paymentIntentId: string | null = null;
@@ -618,14 +601,8 @@ async function handleSubscriptionCreatedOrUpdated(subscription: Stripe.Subscript
     // Get subscription plan from metadata
     const plan = subscription.metadata?.plan || 'unknown';
 
-    // Map plan to monthly credits
-    const creditMap: Record<string, number> = {
-      starter: 10,
-      pro: 25,
-      unlimited: 1000000, // 1M credits per month
-    };
-
-    const monthlyCredits = creditMap[plan] || 0;
+    // Monthly allowance from the plan catalogue; null is unlimited, unknown plans get 0
+    const monthlyCredits = getPlan(plan).monthlyCredits;
 
     logAction('SUBSCRIPTION_PROCESSING', user.id, {
       plan,
@@ -644,7 +621,6 @@ async function handleSubscriptionCreatedOrUpdated(subscription: Stripe.Subscript
         subscription_current_period_start: periodStart.toISOString(),
         subscription_current_period_end: periodEnd.toISOString(),
         subscription_monthly_credits: monthlyCredits,
-        credits: monthlyCredits, // Set credits to monthly allowance
         updated_at: new Date().toISOString(),
       })
       .eq('id', user.id);
@@ -654,6 +630,19 @@ async function handleSubscriptionCreatedOrUpdated(subscription: Stripe.Subscript
       return;
     }
 
+    // Set credits to the monthly allowance, once per plan and billing period
+    try {
+      await setCredits(user.id, 'reset', monthlyCredits, {
+        referenceType: 'subscription',
+        referenceId: subscription.id,
+        idempotencyKey: `subscription:${subscription.id}:${plan}:${subscription.current_period_start}`,
+        note: `${plan} plan allowance`,
+      });
+    } catch (creditError) {
+      logAction('SUBSCRIPTION_CREDITS_ERROR', user.id, { error: String(creditError) });
+      return;
+    }
+
     logAction('SUBSCRIPTION_UPDATED', user.id, {
       plan,
       monthlyCredits,
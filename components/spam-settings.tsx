@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { SpamSettings } from '@/lib/db';
+import type { SpamReport } from '@/lib/spam-check';
+
+const MODE_LABELS: Record<SpamSettings['mode'], string> = {
+  off: 'Off',
+  warn: 'Ask before sending',
+  block: 'Block risky emails',
+};
+
+/**
+ * Score a draft with /api/spam-check before it is sent
+ * Warn mode asks the user to confirm; block mode returns the reason instead of sending.
+ * If the check itself fails the send goes ahead: /api/send-email enforces block mode on its own.
+ */
+export async function checkSpamBeforeSend(
+  subject: string,
+  body: string
+): Promise<{ proceed: boolean; blockedReason?: string }> {
+  try {
+    const response = await fetch('/api/spam-check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subject, body }),
+    });
+    if (!response.ok) return { proceed: true };
+
+    const { data } = (await response.json()) as { data: SpamReport & { action: 'send' | 'warn' | 'block' } };
+    const reasons = data.findings.slice(0, 3).map((finding) => finding.message).join('. ');
+
+    if (data.action === 'block') {
+      return { proceed: false, blockedReason: `Spam risk ${data.score}/100 is above your limit. ${reasons}` };
+    }
+    if (data.action === 'warn') {
+      return { proceed: window.confirm(`Spam risk ${data.score}/100: ${reasons}\n\nSend anyway?`) };
+    }
+    return { proceed: true };
+  } catch (error) {
+    console.error('Spam check failed:', error);
+    return { proceed: true };
+  }
+}
+
+/**
+ * Mode and threshold for the spam check on outgoing emails (/api/user/spam-settings)
+ */
+export function SpamSettingsControl() {
+  const [settings, setSettings] = useState<SpamSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetch('/api/user/spam-settings')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data?.data && setSettings(data.data))
+      .catch((err) => console.error('Failed to load spam settings:', err));
+  }, []);
+
+  async function handleSave() {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      const response = await fetch('/api/user/spam-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      setMessage(response.ok ? 'Saved' : data.error || 'Failed to save');
+    } catch {
+      setMessage('Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!settings) return null;
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mt-3 text-sm text-slate-600 dark:text-slate-400">
+      <label>
+        Spam check
+        <select
+          value={settings.mode}
+          onChange={(e) => setSettings({ ...settings, mode: e.target.value as SpamSettings['mode'] })}
+          className="input mt-1"
+        >
+          {(Object.keys(MODE_LABELS) as SpamSettings['mode'][]).map((mode) => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Risk threshold (1–100)
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={settings.threshold}
+          disabled={settings.mode === 'off'}
+          onChange={(e) => setSettings({ ...settings, threshold: Number(e.target.value) })}
+          className="input mt-1 w-24"
+        />
+      </label>
+      <Button variant="secondary" size="sm" onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save'}
+      </Button>
+      {message && <span>{message}</span>}
+    </div>
+  );
+}
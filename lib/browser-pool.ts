@@ -0,0 +1,263 @@
+import { chromium, Browser, BrowserContext, Page, Request } from 'playwright';
+import { AppError } from './error-handler';
+
+/**
+ * Shared Playwright browser for the scraper fallback
+ *
+ * One Chromium process per server instance, a fresh context per request (no shared
+ * cookies/cache between prospects), a concurrency cap with a bounded FIFO queue, and
+ * automatic relaunch if the browser crashes. Heavy resources and trackers are blocked.
+ * Metrics are per instance (serverless instances each keep their own pool).
+ */
+
+const MAX_CONCURRENT_PAGES = Number(process.env.BROWSER_POOL_SIZE) || 3;
+const MAX_QUEUE_LENGTH = Number(process.env.BROWSER_POOL_MAX_QUEUE) || 20;
+const QUEUE_TIMEOUT_MS = 30000;
+// Recycle the browser after this many contexts to contain memory leaks
+const MAX_CONTEXTS_PER_BROWSER = 200;
+// Close the browser after this long without work
+const IDLE_CLOSE_MS = 60000;
+
+const BLOCKED_RESOURCE_TYPES = new Set(['image', 'media', 'font', 'imageset', 'texttrack', 'beacon', 'csp_report']);
+const TRACKER_HOSTS =
+  /(^|\.)(google-analytics\.com|googletagmanager\.com|doubleclick\.net|facebook\.net|connect\.facebook\.com|hotjar\.com|segment\.(io|com)|mixpanel\.com|fullstory\.com|clarity\.ms|hs-analytics\.net|hs-scripts\.com|intercomcdn\.com|snap\.licdn\.com|ads-twitter\.com|analytics\.tiktok\.com|bat\.bing\.com)$/i;
+
+export interface BrowserPoolMetrics {
+  maxConcurrent: number;
+  active: number;
+  queued: number;
+  peakActive: number;
+  peakQueued: number;
+  totalRequests: number;
+  completed: number;
+  failed: number;
+  rejected: number;
+  launches: number;
+  crashes: number;
+  blockedRequests: number;
+  avgWaitMs: number;
+  utilisation: number;
+  browserConnected: boolean;
+}
+
+export interface BrowserPageOptions {
+  userAgent?: string;
+  // Extra per-request check (e.g. the SSRF guard); returning false aborts the request
+  allowRequest?: (request: Request) => Promise<boolean>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let browser: Browser | null = null;
+let launching: Promise<Browser> | null = null;
+let contextsSinceLaunch = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let active = 0;
+const waiters: Waiter[] = [];
+
+const metrics = {
+  peakActive: 0,
+  peakQueued: 0,
+  totalRequests: 0,
+  completed: 0,
+  failed: 0,
+  rejected: 0,
+  acquired: 0,
+  launches: 0,
+  crashes: 0,
+  blockedRequests: 0,
+  totalWaitMs: 0,
+};
+
+async function getBrowser(): Promise<Browser> {
+  if (browser?.isConnected()) return browser;
+  if (launching) return launching;
+
+  launching = chromium
+    .launch({ headless: true })
+    .then((launched) => {
+      metrics.launches++;
+      contextsSinceLaunch = 0;
+      launched.on('disconnected', () => {
+        // Unexpected disconnect = crash; intentional closes clear `browser` first
+        if (browser === launched) {
+          metrics.crashes++;
+          browser = null;
+          console.error('[BrowserPool] Browser disconnected unexpectedly, will relaunch on next request');
+        }
+      });
+      browser = launched;
+      console.log(`[BrowserPool] Launched Chromium (launch #${metrics.launches})`);
+      return launched;
+    })
+    .finally(() => {
+      launching = null;
+    });
+
+  return launching;
+}
+
+async function closeBrowser(reason: string) {
+  const current = browser;
+  browser = null;
+  if (current) {
+    console.log(`[BrowserPool] Closing browser: ${reason}`);
+    await current.close().catch(() => {});
+  }
+}
+
+function acquireSlot(): Promise<void> {
+  metrics.totalRequests++;
+
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+
+  if (active < MAX_CONCURRENT_PAGES) {
+    active++;
+    metrics.peakActive = Math.max(metrics.peakActive, active);
+    return Promise.resolve();
+  }
+
+  if (waiters.length >= MAX_QUEUE_LENGTH) {
+    metrics.rejected++;
+    return Promise.reject(
+      new AppError(503, 'Scraper is busy. Please try again in a moment.', 'SCRAPER_BUSY')
+    );
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const waiter: Waiter = {
+      resolve,
+      reject,
+      timer: setTimeout(() => {
+        const index = waiters.indexOf(waiter);
+        if (index !== -1) waiters.splice(index, 1);
+        metrics.rejected++;
+        reject(new AppError(503, 'Scraper is busy. Please try again in a moment.', 'SCRAPER_BUSY'));
+      }, QUEUE_TIMEOUT_MS),
+    };
+    waiters.push(waiter);
+    metrics.peakQueued = Math.max(metrics.peakQueued, waiters.length);
+  });
+}
+
+function releaseSlot() {
+  const next = waiters.shift();
+  if (next) {
+    // Hand the slot straight to the next waiter; `active` stays the same
+    clearTimeout(next.timer);
+    next.resolve();
+    return;
+  }
+
+  active--;
+
+  if (active === 0) {
+    if (contextsSinceLaunch >= MAX_CONTEXTS_PER_BROWSER) {
+      closeBrowser(`recycling after ${contextsSinceLaunch} contexts`);
+    } else {
+      idleTimer = setTimeout(() => closeBrowser('idle'), IDLE_CLOSE_MS);
+    }
+  }
+}
+
+async function openContext(options: BrowserPageOptions): Promise<BrowserContext> {
+  const current = await getBrowser();
+  contextsSinceLaunch++;
+
+  const context = await current.newContext({
+    userAgent: options.userAgent,
+    serviceWorkers: 'block',
+    acceptDownloads: false,
+  });
+
+  await context.route('**/*', async (route) => {
+    const request = route.request();
+
+    let blocked = BLOCKED_RESOURCE_TYPES.has(request.resourceType());
+    if (!blocked) {
+      try {
+        blocked = TRACKER_HOSTS.test(new URL(request.url()).hostname);
+      } catch {
+        blocked = false;
+      }
+    }
+    if (!blocked && options.allowRequest) {
+      blocked = !(await options.allowRequest(request));
+    }
+
+    if (blocked) {
+      metrics.blockedRequests++;
+      return route.abort('blockedbyclient');
+    }
+    return route.continue();
+  });
+
+  return context;
+}
+
+/**
+ * Run `fn` with a fresh page in an isolated context from the shared browser
+ * Waits for a free slot (or fails with SCRAPER_BUSY); retries once on a browser crash
+ */
+export async function withBrowserPage<T>(
+  fn: (page: Page) => Promise<T>,
+  options: BrowserPageOptions = {}
+): Promise<T> {
+  const queuedAt = Date.now();
+  await acquireSlot();
+  metrics.acquired++;
+  metrics.totalWaitMs += Date.now() - queuedAt;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      let context: BrowserContext | null = null;
+      try {
+        context = await openContext(options);
+        const page = await context.newPage();
+        const result = await fn(page);
+        metrics.completed++;
+        return result;
+      } catch (error) {
+        const crashed = !browser?.isConnected();
+        if (crashed && attempt === 0 && !(error instanceof AppError)) {
+          console.warn('[BrowserPool] Browser crashed mid-request, retrying with a fresh browser');
+          await closeBrowser('crash recovery');
+          continue;
+        }
+        metrics.failed++;
+        throw error;
+      } finally {
+        if (context) await context.close().catch(() => {});
+      }
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+export function getBrowserPoolMetrics(): BrowserPoolMetrics {
+  return {
+    maxConcurrent: MAX_CONCURRENT_PAGES,
+    active,
+    queued: waiters.length,
+    peakActive: metrics.peakActive,
+    peakQueued: metrics.peakQueued,
+    totalRequests: metrics.totalRequests,
+    completed: metrics.completed,
+    failed: metrics.failed,
+    rejected: metrics.rejected,
+    launches: metrics.launches,
+    crashes: metrics.crashes,
+    blockedRequests: metrics.blockedRequests,
+    avgWaitMs: metrics.acquired > 0 ? Math.round(metrics.totalWaitMs / metrics.acquired) : 0,
+    utilisation: Math.round((active / MAX_CONCURRENT_PAGES) * 100) / 100,
+    browserConnected: browser?.isConnected() ?? false,
+  };
+}
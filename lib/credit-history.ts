@@ -0,0 +1,212 @@
+import type { CreditEntryKind } from './credits';
+import type { CreditLedgerRow, CreditReservationRow, HistoryPosition, PaymentRow } from './db';
+import { CREDIT_ACTION_LABELS, CreditAction } from './credit-pricing';
+
+/**
+ * Credit and billing history shown to the user: credit ledger movements and Stripe
+ * payments merged into one timeline, with links to what each spend paid for
+ */
+
+// Ledger kinds (CREDIT_ENTRY_KINDS in lib/credits.ts) plus Stripe payments
+export const CREDIT_HISTORY_TYPES = [
+  'purchase',
+  'reset',
+  'spend',
+  'refund',
+  'grant',
+  'admin_adjustment',
+  'payment',
+] as const satisfies readonly (CreditEntryKind | 'payment')[];
+
+export type CreditHistoryType = (typeof CREDIT_HISTORY_TYPES)[number];
+
+export const CREDIT_HISTORY_LABELS: Record<CreditHistoryType, string> = {
+  purchase: 'Purchase',
+  reset: 'Subscription reset',
+  spend: 'Spend',
+  refund: 'Refund',
+  grant: 'Grant',
+  admin_adjustment: 'Adjustment',
+  payment: 'Payment',
+};
+
+export interface CreditHistoryEntry {
+  id: string;
+  type: CreditHistoryType;
+  date: string;
+  // Credits added (positive) or taken (negative); for payments, the credits they bought
+  credits: number | null;
+  // Balance after the movement; null is unlimited (or unknown, for payments)
+  balanceAfter: number | null;
+  description: string;
+  // Reservation outcome for spends, Stripe status for payments
+  status?: string;
+  link?: { label: string; href: string };
+  // Amount charged in the smallest currency unit, for payments
+  payment?: { amount: number; currency: string };
+}
+
+// Why a reservation was released, in words (see releaseCredits callers)
+const RELEASE_REASONS: Record<string, string> = {
+  expired: 'timed out',
+  save_failed: 'result could not be saved',
+  CANCELLED: 'cancelled',
+};
+
+function actionLabel(action: string | null | undefined): string {
+  return CREDIT_ACTION_LABELS[action as CreditAction]?.label ?? action ?? 'Credits used';
+}
+
+function releaseReason(reason: string | null | undefined): string {
+  if (!reason) return 'failed';
+  return RELEASE_REASONS[reason] ?? `failed: ${reason}`;
+}
+
+// Where the thing a credit paid for can be seen
+function referenceLink(type: string | null, id: string | null): CreditHistoryEntry['link'] {
+  if (!type || !id) return undefined;
+  if (type === 'research') return { label: `Research #${id}`, href: `/dashboard?research=${id}` };
+  if (type === 'response') return { label: `Reply #${id}`, href: `/dashboard?response=${id}` };
+  return undefined;
+}
+
+function describeLedgerRow(
+  row: CreditLedgerRow,
+  reservation: CreditReservationRow | undefined
+): Pick<CreditHistoryEntry, 'description' | 'status' | 'link'> {
+  switch (row.kind) {
+    case 'spend':
+      if (row.reference_type === 'reservation') {
+        return {
+          description: actionLabel(reservation?.action ?? row.note),
+          status: reservation?.status,
+          link: referenceLink(reservation?.reference_type ?? null, reservation?.reference_id ?? null),
+        };
+      }
+      return {
+        description: row.reference_id ? `${actionLabel(row.note)} · ${row.reference_id}` : actionLabel(row.note),
+        link: referenceLink(row.reference_type, row.reference_id),
+      };
+    case 'refund':
+      if (row.reference_type === 'reservation') {
+        return { description: `Refund: ${actionLabel(reservation?.action)} (${releaseReason(row.note)})` };
+      }
+      return { description: row.note || 'Refund' };
+    case 'purchase':
+      return { description: row.note || 'Credit purchase' };
+    case 'reset':
+      return { description: row.note ? `Subscription reset (${row.note})` : 'Subscription reset' };
+    case 'admin_adjustment':
+      return { description: row.note ? `Adjusted by support: ${row.note}` : 'Adjusted by support' };
+    default:
+      return { description: row.note || CREDIT_HISTORY_LABELS[row.kind] };
+  }
+}
+
+/**
+ * One timeline, newest first, from ledger rows, the reservations they reference and payments
+ */
+export function buildCreditHistory(
+  ledger: CreditLedgerRow[],
+  reservations: CreditReservationRow[],
+  payments: PaymentRow[]
+): CreditHistoryEntry[] {
+  const reservationsById = new Map(reservations.map((reservation) => [String(reservation.id), reservation]));
+
+  const movements: CreditHistoryEntry[] = ledger.map((row) => ({
+    id: `ledger:${row.id}`,
+    type: row.kind,
+    date: row.created_at,
+    credits: row.amount,
+    balanceAfter: row.balance_after,
+    ...describeLedgerRow(row, row.reference_type === 'reservation' ? reservationsById.get(row.reference_id) : undefined),
+  }));
+
+  const charges: CreditHistoryEntry[] = payments.map((payment) => ({
+    id: `payment:${payment.id}`,
+    type: 'payment',
+    date: payment.created_at,
+    credits: payment.credits_added,
+    balanceAfter: null,
+    description: 'Stripe payment',
+    status: payment.status,
+    payment: { amount: payment.amount, currency: payment.currency },
+  }));
+
+  return [...movements, ...charges].sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+}
+
+// Where each source stopped; a source without a position has not been read from yet
+export interface CreditHistoryCursor {
+  ledger?: HistoryPosition;
+  payments?: HistoryPosition;
+}
+
+/**
+ * The newest `size` entries from rows fetched after `cursor` (up to size + 1 per source),
+ * and the cursor for the next page, or null when nothing is left
+ */
+export function pageCreditHistory(
+  ledger: CreditLedgerRow[],
+  reservations: CreditReservationRow[],
+  payments: PaymentRow[],
+  size: number,
+  cursor: CreditHistoryCursor = {}
+): { entries: CreditHistoryEntry[]; nextCursor: CreditHistoryCursor | null } {
+  const history = buildCreditHistory(ledger, reservations, payments);
+  const entries = history.slice(0, size);
+  if (history.length <= size) return { entries, nextCursor: null };
+
+  // The sort keeps each source in query order, so a page holds a prefix of each
+  const ledgerUsed = entries.filter((entry) => entry.type !== 'payment').length;
+  const paymentsUsed = entries.length - ledgerUsed;
+  const position = (row: { id: number; created_at: string }): HistoryPosition => ({ createdAt: row.created_at, id: row.id });
+
+  return {
+    entries,
+    nextCursor: {
+      ledger: ledgerUsed > 0 ? position(ledger[ledgerUsed - 1]) : cursor.ledger,
+      payments: paymentsUsed > 0 ? position(payments[paymentsUsed - 1]) : cursor.payments,
+    },
+  };
+}
+
+/**
+ * Reservation ids referenced by ledger rows, to look up what they paid for
+ */
+export function reservationIds(ledger: CreditLedgerRow[]): number[] {
+  const ids = ledger
+    .filter((row) => row.reference_type === 'reservation' && row.reference_id)
+    .map((row) => Number(row.reference_id));
+  return Array.from(new Set(ids)).filter(Number.isInteger);
+}
+
+export function formatPaymentAmount(payment: CreditHistoryEntry['payment']): string {
+  if (!payment) return '';
+  return `${(payment.amount / 100).toFixed(2)} ${payment.currency.toUpperCase()}`;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export const CREDIT_HISTORY_CSV_HEADER = ['Date', 'Type', 'Description', 'Status', 'Credits', 'Balance After', 'Payment', 'Reference']
+  .map(csvCell)
+  .join(',');
+
+// One CSV line per entry, without the header, so long exports can be written page by page
+export function creditHistoryCsvRows(entries: CreditHistoryEntry[]): string[] {
+  const rows = entries.map((entry) => [
+    entry.date,
+    CREDIT_HISTORY_LABELS[entry.type],
+    entry.description,
+    entry.status,
+    entry.credits,
+    entry.type === 'payment' ? '' : (entry.balanceAfter ?? 'unlimited'),
+    formatPaymentAmount(entry.payment),
+    entry.link?.label,
+  ]);
+
+  return rows.map((row) => row.map(csvCell).join(','));
+}
@@ -0,0 +1,94 @@
+import { PLAN_IDS, PlanId, getPlan, isPlanId } from './plans';
+
+/**
+ * Credit pricing table: what each metered action costs, per plan (plans are in lib/plans.ts)
+ * The credit layer (lib/credits.ts) charges from here; /api/user/stats returns it to the UI
+ *
+ * Plan overrides replace the default cost for that plan only. Costs can be changed without
+ * a deploy through CREDIT_PRICING, a comma-separated list of [plan.]action:cost entries:
+ *   CREDIT_PRICING=analyze:2,deep_analyze:3,pro.deep_analyze:2,respond:1
+ */
+
+export const CREDIT_ACTIONS = ['analyze', 'deep_analyze', 'generate_emails', 'respond', 'bulk_row', 'send'] as const;
+
+export type CreditAction = (typeof CREDIT_ACTIONS)[number];
+
+export type PricingTable = Record<CreditAction, number>;
+
+export const CREDIT_ACTION_LABELS: Record<CreditAction, { label: string; description: string }> = {
+  analyze: { label: 'Analyze prospect', description: 'Scrape a site (or reuse a recent scrape) and find angles' },
+  deep_analyze: { label: 'Deep analyze', description: 'Analysis with a fresh crawl of the site, skipping the scrape cache' },
+  generate_emails: {
+    label: 'Generate emails',
+    description: 'Variants and follow-ups for a site you have not analyzed, or a new set after the first (the first set after an analysis is included)',
+  },
+  respond: { label: 'Respond to reply', description: 'Classify a prospect reply and draft answers' },
+  bulk_row: { label: 'Bulk row', description: 'Each research row in a CSV export' },
+  send: { label: 'Send email', description: 'Send an email through the built-in sender' },
+};
+
+const DEFAULT_PRICING: PricingTable = {
+  analyze: 1,
+  deep_analyze: 2,
+  generate_emails: 1,
+  respond: 0,
+  bulk_row: 1,
+  send: 0,
+};
+
+const PLAN_PRICING: Partial<Record<PlanId, Partial<PricingTable>>> = {
+  pro: { deep_analyze: 1 },
+  unlimited: { deep_analyze: 1 },
+};
+
+function isAction(value: string): value is CreditAction {
+  return (CREDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Overrides from CREDIT_PRICING, keyed by plan ('default' for every plan)
+ * Malformed entries are skipped with a warning rather than failing every charge
+ */
+function readPricingOverrides(raw: string | undefined): Partial<Record<PlanId | 'default', Partial<PricingTable>>> {
+  const overrides: Partial<Record<PlanId | 'default', Partial<PricingTable>>> = {};
+
+  for (const entry of (raw || '').split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [key, value] = entry.split(':').map((part) => part.trim());
+    const [plan, action] = key.includes('.') ? key.split('.') : ['default', key];
+    const cost = Number(value);
+
+    if (!isAction(action) || (plan !== 'default' && !isPlanId(plan)) || !Number.isInteger(cost) || cost < 0) {
+      console.warn(`Ignoring CREDIT_PRICING entry "${entry}"`);
+      continue;
+    }
+    overrides[plan as PlanId | 'default'] = { ...overrides[plan as PlanId | 'default'], [action]: cost };
+  }
+  return overrides;
+}
+
+const PRICING_OVERRIDES = readPricingOverrides(process.env.CREDIT_PRICING);
+
+// Later layers win: defaults, CREDIT_PRICING defaults, plan overrides, CREDIT_PRICING plan entries
+export function getPricingTable(plan: string | null | undefined): PricingTable {
+  const resolved = getPlan(plan).id;
+  return {
+    ...DEFAULT_PRICING,
+    ...PRICING_OVERRIDES.default,
+    ...PLAN_PRICING[resolved],
+    ...PRICING_OVERRIDES[resolved],
+  };
+}
+
+export function getPricingTables(): Record<PlanId, PricingTable> {
+  return Object.fromEntries(PLAN_IDS.map((plan) => [plan, getPricingTable(plan)])) as Record<PlanId, PricingTable>;
+}
+
+export function getActionCost(action: CreditAction, plan: string | null | undefined): number {
+  return getPricingTable(plan)[action];
+}
+
+export function formatCreditCost(cost: number | undefined): string {
+  if (cost === undefined) return '';
+  if (cost === 0) return 'Free';
+  return `${cost} credit${cost === 1 ? '' : 's'}`;
+}
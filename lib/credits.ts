@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto';
+import { AppError, logAction, withRetry } from './error-handler';
+import {
+  addUserCredits,
+  commitUserCredits,
+  getUserCredits,
+  getUserPlan,
+  releaseExpiredCreditReservations,
+  releaseUserCredits,
+  reserveUserCredits,
+  setUserCredits,
+  spendUserCredits,
+  CreditEntryInput,
+} from './db';
+import { getActionCost, CreditAction } from './credit-pricing';
+
+/**
+ * Every credit movement goes through here and lands in the credit ledger
+ * (see the credit_ledger DDL in lib/db.ts); nothing else writes users.credits
+ * Metered actions are priced from the table in lib/credit-pricing.ts
+ */
+
+export const CREDIT_ENTRY_KINDS = ['grant', 'purchase', 'spend', 'refund', 'reset', 'admin_adjustment'] as const;
+
+export type CreditEntryKind = (typeof CREDIT_ENTRY_KINDS)[number];
+
+export type { CreditEntryInput, CreditAction };
+
+// id is null for free actions: nothing was held, so there is nothing to commit or release
+export interface CreditReservation {
+  id: number | null;
+  userId: number;
+  action: CreditAction;
+  amount: number;
+}
+
+// How long a reservation may stay held before the sweeper refunds it; longer than any analysis
+export const RESERVATION_TTL_SECONDS = 15 * 60;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+}
+
+// Two requests raced on the same idempotency key; the other one applied it
+function isDuplicateKey(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+function insufficientCredits(): AppError {
+  return new AppError(402, 'Insufficient credits. Please purchase more credits to continue.', 'INSUFFICIENT_CREDITS');
+}
+
+/**
+ * What the action costs this user on their current plan
+ */
+export async function getCreditCost(userId: number, action: CreditAction): Promise<number> {
+  return getActionCost(action, await getUserPlan(userId));
+}
+
+/**
+ * Charge for an action in one database call; returns the new balance (null = unlimited)
+ * Throws a 402 INSUFFICIENT_CREDITS AppError when the balance is too low
+ */
+export async function spendCredits(
+  userId: number,
+  action: CreditAction,
+  entry: CreditEntryInput = {}
+): Promise<number | null> {
+  const amount = await getCreditCost(userId, action);
+  if (amount === 0) return getUserCredits(userId);
+
+  try {
+    return await spendUserCredits(userId, amount, { note: action, ...entry });
+  } catch (error) {
+    if (errorMessage(error).includes('INSUFFICIENT_CREDITS')) throw insufficientCredits();
+    if (isDuplicateKey(error)) return getUserCredits(userId);
+    throw error;
+  }
+}
+
+/**
+ * Add credits (signup grants, purchases, refunds, admin top-ups)
+ */
+export async function addCredits(
+  userId: number,
+  kind: Exclude<CreditEntryKind, 'spend' | 'reset'>,
+  amount: number,
+  entry: CreditEntryInput = {}
+): Promise<number | null> {
+  try {
+    return await addUserCredits(userId, kind, amount, entry);
+  } catch (error) {
+    if (isDuplicateKey(error)) return getUserCredits(userId);
+    throw error;
+  }
+}
+
+/**
+ * Replace the balance (subscription resets, admin changes); null makes the account unlimited
+ */
+export async function setCredits(
+  userId: number,
+  kind: 'reset' | 'admin_adjustment',
+  balance: number | null,
+  entry: CreditEntryInput = {}
+): Promise<number | null> {
+  try {
+    return await setUserCredits(userId, kind, balance, entry);
+  } catch (error) {
+    if (isDuplicateKey(error)) return getUserCredits(userId);
+    throw error;
+  }
+}
+
+/**
+ * Hold the action's cost (times quantity, e.g. rows) for an operation that may still fail; commit
+ * or release the reservation once it ends. Throws a 402 INSUFFICIENT_CREDITS AppError when the
+ * balance is too low
+ * Retries must pass the same idempotency key, so a hold whose response was lost isn't taken twice
+ */
+export async function reserveCredits(
+  userId: number,
+  action: CreditAction,
+  idempotencyKey: string = randomUUID(),
+  quantity: number = 1
+): Promise<CreditReservation> {
+  const amount = (await getCreditCost(userId, action)) * quantity;
+  if (amount === 0) return { id: null, userId, action, amount };
+
+  try {
+    const id = await reserveUserCredits(userId, action, amount, RESERVATION_TTL_SECONDS, idempotencyKey);
+    return { id, userId, action, amount };
+  } catch (error) {
+    if (errorMessage(error).includes('INSUFFICIENT_CREDITS')) throw insufficientCredits();
+    throw error;
+  }
+}
+
+/**
+ * Hold the action's credits while the operation runs, releasing them if it throws
+ * The operation commits the reservation once its result is kept; anything left held
+ * (crash, timeout) is refunded by the sweeper
+ */
+export async function withReservedCredits<T>(
+  userId: number,
+  action: CreditAction,
+  operation: (reservation: CreditReservation) => Promise<T>,
+  quantity: number = 1
+): Promise<T> {
+  let reservation: CreditReservation;
+  const idempotencyKey = randomUUID();
+  try {
+    reservation = await withRetry(() => reserveCredits(userId, action, idempotencyKey, quantity), 2);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    logAction('CREDIT_RESERVE_FAILED', userId, { action, error: String(error) });
+    throw new AppError(
+      500,
+      'Failed to process credits. Please contact support.',
+      'CREDIT_ERROR'
+    );
+  }
+
+  try {
+    return await operation(reservation);
+  } catch (error) {
+    await releaseCredits(reservation, error instanceof AppError && error.code ? error.code : 'error');
+    throw error;
+  }
+}
+
+/**
+ * Keep the reserved credits, recording what they paid for
+ * Best effort: an unsettled reservation is released by the sweeper once it expires
+ */
+export async function commitCredits(
+  reservation: CreditReservation,
+  referenceType: string,
+  referenceId?: string | number
+) {
+  if (reservation.id === null) return;
+
+  try {
+    const committed = await withRetry(
+      () => commitUserCredits(reservation.userId, reservation.id, { referenceType, referenceId }),
+      2
+    );
+    if (!committed) {
+      logAction('CREDIT_COMMIT_SKIPPED', reservation.userId, { reservationId: reservation.id, referenceType, referenceId });
+    }
+  } catch (error) {
+    logAction('CREDIT_COMMIT_FAILED', reservation.userId, { reservationId: reservation.id, error: String(error) });
+  }
+}
+
+/**
+ * Refund the reserved credits; the reason shows on the refund in the credit history
+ * Best effort like commitCredits
+ */
+export async function releaseCredits(reservation: CreditReservation, reason: string) {
+  if (reservation.id === null) return;
+
+  try {
+    await withRetry(() => releaseUserCredits(reservation.userId, reservation.id, reason), 2);
+    logAction('CREDIT_RELEASED', reservation.userId, { reservationId: reservation.id, action: reservation.action, reason });
+  } catch (error) {
+    logAction('CREDIT_RELEASE_FAILED', reservation.userId, { reservationId: reservation.id, error: String(error) });
+  }
+}
+
+/**
+ * Refund every reservation held past its expiry; returns how many were released
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  return releaseExpiredCreditReservations();
+}
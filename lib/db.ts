@@ -1,10 +1,32 @@
 import { createClient } from '@supabase/supabase-js';
+import type { DetectedTechnology } from './tech-fingerprint';
+import type { ScrapeResult } from './scraper';
+import type { GenerationProfile, KnowledgeItemInput } from './validation';
+import type { CreditEntryKind } from './credits';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Run a ranged select page by page until a short page; the query must have a stable order
+ */
+async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
 export async function initializeDatabase() {
   try {
     // Supabase creates tables automatically when defined via dashboard
@@ -31,89 +53,587 @@ export async function queryUser(email: string) {
   }
 }
 
+// Credits granted to every new account
+const SIGNUP_CREDITS = 3;
+
+/**
+ * Insert the user and grant the signup credits in one transaction, so a failed grant
+ * can't leave a half-created account behind (the grant goes through the ledger, so it
+ * shows up in the user's credit history)
+ *
+ * create or replace function create_user(p_email text, p_password_hash text, p_signup_credits integer)
+ * returns users language plpgsql as $$
+ * declare v_user users;
+ * begin
+ *   insert into users (email, password_hash, credits, subscription_plan)
+ *   values (p_email, p_password_hash, 0, 'free') returning * into v_user;
+ *   perform add_credits(v_user.id, 'grant', p_signup_credits, null, null, 'signup:' || v_user.id, 'Signup bonus');
+ *   select * into v_user from users where id = v_user.id;
+ *   return v_user;
+ * end $$;
+ */
 export async function createUser(email: string, passwordHash: string) {
   try {
-    const { data, error } = await supabase
-      .from('users')
-      .insert([
-        {
-          email,
-          password_hash: passwordHash,
-          credits: 3,
-          subscription_plan: 'free',
-        },
-      ])
-      .select();
+    const { data, error } = await supabase.rpc('create_user', {
+      p_email: email,
+      p_password_hash: passwordHash,
+      p_signup_credits: SIGNUP_CREDITS,
+    });
 
-    if (error) {
-      console.error('Create user error:', error);
-      throw error;
-    }
-    return data;
+    if (error) throw error;
+    return data ? [data] : [];
   } catch (error) {
     console.error('Create user error:', error);
     throw error;
   }
 }
 
-export async function updateUserCredits(userId: number, creditsToAdd: number) {
+export async function getUserCredits(userId: number): Promise<number | null> {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('users')
-      .update({ credits: supabase.rpc('increment_credits', { user_id: userId, amount: creditsToAdd }) })
-      .eq('id', userId);
+      .select('credits')
+      .eq('id', userId)
+      .single();
 
     if (error) throw error;
+    // Return null if credits is null (unlimited plan)
+    // Otherwise return the numeric value
+    return data?.credits ?? null;
   } catch (error) {
-    console.error('Update credits error:', error);
+    console.error('Get credits error:', error);
     throw error;
   }
 }
 
-export async function getUserCredits(userId: number): Promise<number | null> {
+export async function getUserPlan(userId: number): Promise<string | null> {
   try {
     const { data, error } = await supabase
       .from('users')
-      .select('credits')
+      .select('subscription_plan')
       .eq('id', userId)
       .single();
 
     if (error) throw error;
-    // Return null if credits is null (unlimited plan)
-    // Otherwise return the numeric value
-    return data?.credits ?? null;
+    return data?.subscription_plan ?? null;
   } catch (error) {
-    console.error('Get credits error:', error);
+    console.error('Get user plan error:', error);
     throw error;
   }
 }
 
-export async function decrementCredits(userId: number) {
+/**
+ * Credit ledger: every change to a user's credits, append-only (see lib/credits.ts)
+ *
+ * users.credits stays the cached balance (null = unlimited). The functions below lock
+ * the user row, update it and write the ledger row in one transaction, so concurrent
+ * requests can't both spend the last credit and, for limited accounts, sum(amount)
+ * matches users.credits. An idempotency key that was already applied is a no-op that
+ * returns the balance recorded with it.
+ *
+ * create table credit_ledger (
+ *   id bigserial primary key,
+ *   user_id bigint not null references users(id) on delete cascade,
+ *   kind text not null check (kind in ('grant', 'purchase', 'spend', 'refund', 'reset', 'admin_adjustment')),
+ *   amount integer not null,
+ *   balance_after integer,
+ *   reference_type text,
+ *   reference_id text,
+ *   idempotency_key text unique,
+ *   note text,
+ *   created_at timestamptz not null default now()
+ * );
+ * create index credit_ledger_user_created_idx on credit_ledger (user_id, created_at desc);
+ *
+ * create or replace function spend_credits(
+ *   p_user_id bigint, p_amount integer, p_reference_type text default null,
+ *   p_reference_id text default null, p_idempotency_key text default null, p_note text default null
+ * ) returns integer language plpgsql as $$
+ * declare v_credits integer;
+ * begin
+ *   if p_idempotency_key is not null then
+ *     select balance_after into v_credits from credit_ledger where idempotency_key = p_idempotency_key;
+ *     if found then return v_credits; end if;
+ *   end if;
+ *   select credits into v_credits from users where id = p_user_id for update;
+ *   if not found then raise exception 'USER_NOT_FOUND'; end if;
+ *   if v_credits is not null then
+ *     if v_credits < p_amount then raise exception 'INSUFFICIENT_CREDITS'; end if;
+ *     update users set credits = credits - p_amount where id = p_user_id returning credits into v_credits;
+ *   end if;
+ *   insert into credit_ledger (user_id, kind, amount, balance_after, reference_type, reference_id, idempotency_key, note)
+ *   values (p_user_id, 'spend', -p_amount, v_credits, p_reference_type, p_reference_id, p_idempotency_key, p_note);
+ *   return v_credits;
+ * end $$;
+ *
+ * create or replace function add_credits(
+ *   p_user_id bigint, p_kind text, p_amount integer, p_reference_type text default null,
+ *   p_reference_id text default null, p_idempotency_key text default null, p_note text default null
+ * ) returns integer language plpgsql as $$
+ * declare v_credits integer;
+ * begin
+ *   if p_idempotency_key is not null then
+ *     select balance_after into v_credits from credit_ledger where idempotency_key = p_idempotency_key;
+ *     if found then return v_credits; end if;
+ *   end if;
+ *   update users set credits = credits + p_amount where id = p_user_id returning credits into v_credits;
+ *   if not found then raise exception 'USER_NOT_FOUND'; end if;
+ *   insert into credit_ledger (user_id, kind, amount, balance_after, reference_type, reference_id, idempotency_key, note)
+ *   values (p_user_id, p_kind, p_amount, v_credits, p_reference_type, p_reference_id, p_idempotency_key, p_note);
+ *   return v_credits;
+ * end $$;
+ *
+ * -- Resets and admin changes; amount is the difference (0 to or from unlimited)
+ * create or replace function set_credits(
+ *   p_user_id bigint, p_kind text, p_balance integer, p_reference_type text default null,
+ *   p_reference_id text default null, p_idempotency_key text default null, p_note text default null
+ * ) returns integer language plpgsql as $$
+ * declare v_previous integer;
+ * begin
+ *   if p_idempotency_key is not null then
+ *     select balance_after into v_previous from credit_ledger where idempotency_key = p_idempotency_key;
+ *     if found then return v_previous; end if;
+ *   end if;
+ *   select credits into v_previous from users where id = p_user_id for update;
+ *   if not found then raise exception 'USER_NOT_FOUND'; end if;
+ *   update users set credits = p_balance where id = p_user_id;
+ *   insert into credit_ledger (user_id, kind, amount, balance_after, reference_type, reference_id, idempotency_key, note)
+ *   values (p_user_id, p_kind, coalesce(p_balance - v_previous, 0), p_balance, p_reference_type, p_reference_id,
+ *     p_idempotency_key, p_note);
+ *   return p_balance;
+ * end $$;
+ */
+export interface CreditEntryInput {
+  // What the movement was for, e.g. ('research', 42) or ('payment', 'pi_...')
+  referenceType?: string;
+  referenceId?: string | number;
+  // Applied at most once; repeats return the balance recorded the first time
+  idempotencyKey?: string;
+  note?: string;
+}
+
+function creditRpcArgs(entry: CreditEntryInput) {
+  return {
+    p_reference_type: entry.referenceType ?? null,
+    p_reference_id: entry.referenceId === undefined ? null : String(entry.referenceId),
+    p_idempotency_key: entry.idempotencyKey ?? null,
+    p_note: entry.note ?? null,
+  };
+}
+
+/**
+ * Spend credits atomically; returns the new balance (null = unlimited)
+ * Fails with an 'INSUFFICIENT_CREDITS' error when the balance is too low
+ */
+export async function spendUserCredits(userId: number, amount: number, entry: CreditEntryInput = {}): Promise<number | null> {
   try {
-    const credits = await getUserCredits(userId);
-    
-    // If unlimited (null), no need to decrement
-    if (credits === null) {
-      return true;
-    }
-    
-    if (credits <= 0) {
-      throw new Error('Insufficient credits');
-    }
+    const { data, error } = await supabase.rpc('spend_credits', {
+      p_user_id: userId,
+      p_amount: amount,
+      ...creditRpcArgs(entry),
+    });
+
+    if (error) throw error;
+    return data ?? null;
+  } catch (error) {
+    console.error('Spend credits error:', error);
+    throw error;
+  }
+}
+
+export async function addUserCredits(
+  userId: number,
+  kind: CreditEntryKind,
+  amount: number,
+  entry: CreditEntryInput = {}
+): Promise<number | null> {
+  try {
+    const { data, error } = await supabase.rpc('add_credits', {
+      p_user_id: userId,
+      p_kind: kind,
+      p_amount: amount,
+      ...creditRpcArgs(entry),
+    });
+
+    if (error) throw error;
+    return data ?? null;
+  } catch (error) {
+    console.error('Add credits error:', error);
+    throw error;
+  }
+}
+
+export async function setUserCredits(
+  userId: number,
+  kind: CreditEntryKind,
+  balance: number | null,
+  entry: CreditEntryInput = {}
+): Promise<number | null> {
+  try {
+    const { data, error } = await supabase.rpc('set_credits', {
+      p_user_id: userId,
+      p_kind: kind,
+      p_balance: balance,
+      ...creditRpcArgs(entry),
+    });
+
+    if (error) throw error;
+    return data ?? null;
+  } catch (error) {
+    console.error('Set credits error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Credits held while an AI operation runs. Reserving spends the credit straight away
+ * (so concurrent requests can't overdraw); commit keeps it, release refunds it. Held
+ * reservations past expires_at are released by /api/cron/release-credit-reservations
+ *
+ * create table credit_reservations (
+ *   id bigserial primary key,
+ *   user_id bigint not null references users(id) on delete cascade,
+ *   action text not null,
+ *   amount integer not null check (amount > 0),
+ *   status text not null default 'held' check (status in ('held', 'committed', 'released')),
+ *   reference_type text,
+ *   reference_id text,
+ *   release_reason text,
+ *   -- Set by the caller so a retried reserve_credits returns the first hold instead of taking a second
+ *   idempotency_key text unique,
+ *   expires_at timestamptz not null,
+ *   created_at timestamptz not null default now(),
+ *   settled_at timestamptz
+ * );
+ * create index credit_reservations_held_idx on credit_reservations (expires_at) where status = 'held';
+ *
+ * create or replace function reserve_credits(
+ *   p_user_id bigint, p_action text, p_amount integer, p_ttl_seconds integer, p_idempotency_key text default null
+ * ) returns bigint language plpgsql as $$
+ * declare v_id bigint;
+ * begin
+ *   if p_idempotency_key is not null then
+ *     select id into v_id from credit_reservations where idempotency_key = p_idempotency_key;
+ *     if found then return v_id; end if;
+ *   end if;
+ *   insert into credit_reservations (user_id, action, amount, idempotency_key, expires_at)
+ *   values (p_user_id, p_action, p_amount, p_idempotency_key, now() + make_interval(secs => p_ttl_seconds))
+ *   returning id into v_id;
+ *   perform spend_credits(p_user_id, p_amount, 'reservation', v_id::text, 'reserve:' || v_id, p_action);
+ *   return v_id;
+ * end $$;
+ *
+ * create or replace function commit_credits(
+ *   p_user_id bigint, p_reservation_id bigint, p_reference_type text default null, p_reference_id text default null
+ * ) returns boolean language plpgsql as $$
+ * begin
+ *   update credit_reservations
+ *   set status = 'committed', reference_type = p_reference_type, reference_id = p_reference_id, settled_at = now()
+ *   where id = p_reservation_id and user_id = p_user_id and status = 'held';
+ *   return found;
+ * end $$;
+ *
+ * create or replace function release_credits(
+ *   p_user_id bigint, p_reservation_id bigint, p_reason text
+ * ) returns boolean language plpgsql as $$
+ * declare v_amount integer;
+ * begin
+ *   update credit_reservations
+ *   set status = 'released', release_reason = p_reason, settled_at = now()
+ *   where id = p_reservation_id and user_id = p_user_id and status = 'held'
+ *   returning amount into v_amount;
+ *   if not found then return false; end if;
+ *   perform add_credits(p_user_id, 'refund', v_amount, 'reservation', p_reservation_id::text,
+ *     'release:' || p_reservation_id, p_reason);
+ *   return true;
+ * end $$;
+ *
+ * create or replace function release_expired_reservations() returns integer language plpgsql as $$
+ * declare v_row record; v_count integer := 0;
+ * begin
+ *   for v_row in
+ *     select id, user_id from credit_reservations
+ *     where status = 'held' and expires_at < now()
+ *     order by expires_at
+ *     for update skip locked
+ *   loop
+ *     perform release_credits(v_row.user_id, v_row.id, 'expired');
+ *     v_count := v_count + 1;
+ *   end loop;
+ *   return v_count;
+ * end $$;
+ */
+export async function reserveUserCredits(
+  userId: number,
+  action: string,
+  amount: number,
+  ttlSeconds: number,
+  idempotencyKey?: string
+): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('reserve_credits', {
+      p_user_id: userId,
+      p_action: action,
+      p_amount: amount,
+      p_ttl_seconds: ttlSeconds,
+      p_idempotency_key: idempotencyKey ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Reserve credits error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Keep a held reservation; false when it was already committed or released
+ */
+export async function commitUserCredits(
+  userId: number,
+  reservationId: number,
+  reference: Pick<CreditEntryInput, 'referenceType' | 'referenceId'> = {}
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('commit_credits', {
+      p_user_id: userId,
+      p_reservation_id: reservationId,
+      p_reference_type: reference.referenceType ?? null,
+      p_reference_id: reference.referenceId === undefined ? null : String(reference.referenceId),
+    });
+
+    if (error) throw error;
+    return Boolean(data);
+  } catch (error) {
+    console.error('Commit credits error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Refund a held reservation; false when it was already committed or released
+ */
+export async function releaseUserCredits(userId: number, reservationId: number, reason: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('release_credits', {
+      p_user_id: userId,
+      p_reservation_id: reservationId,
+      p_reason: reason,
+    });
+
+    if (error) throw error;
+    return Boolean(data);
+  } catch (error) {
+    console.error('Release credits error:', error);
+    throw error;
+  }
+}
+
+export async function releaseExpiredCreditReservations(): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('release_expired_reservations');
+
+    if (error) throw error;
+    return data ?? 0;
+  } catch (error) {
+    console.error('Release expired reservations error:', error);
+    throw error;
+  }
+}
+
+export interface CreditLedgerRow {
+  id: number;
+  kind: CreditEntryKind;
+  amount: number;
+  balance_after: number | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface CreditReservationRow {
+  id: number;
+  action: string;
+  status: 'held' | 'committed' | 'released';
+  reference_type: string | null;
+  reference_id: string | null;
+  release_reason: string | null;
+}
+
+export interface PaymentRow {
+  id: number;
+  amount: number;
+  currency: string;
+  credits_added: number | null;
+  status: string;
+  stripe_payment_intent_id: string | null;
+  stripe_session_id: string | null;
+  created_at: string;
+}
+
+// Date range for history queries; to is exclusive
+export interface HistoryRange {
+  from?: string;
+  to?: string;
+  limit?: number;
+  // Keyset position: only rows after this one in newest-first order
+  after?: HistoryPosition;
+}
+
+export interface HistoryPosition {
+  createdAt: string;
+  id: number;
+}
+
+// Rows older than the position, or as old with a lower id (lists are ordered by created_at, then id)
+function afterPosition({ createdAt, id }: HistoryPosition): string {
+  return `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`;
+}
 
+/**
+ * The user's credit movements, newest first
+ */
+export async function getCreditLedger(
+  userId: number,
+  { from, to, limit = 1000, after }: HistoryRange = {},
+  kinds?: CreditEntryKind[]
+): Promise<CreditLedgerRow[]> {
+  try {
+    let query = supabase
+      .from('credit_ledger')
+      .select('id, kind, amount, balance_after, reference_type, reference_id, note, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    if (after) query = query.or(afterPosition(after));
+    if (kinds) query = query.in('kind', kinds);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Get credit ledger error:', error);
+    throw error;
+  }
+}
+
+export async function getCreditReservations(userId: number, ids: number[]): Promise<CreditReservationRow[]> {
+  if (ids.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('credit_reservations')
+      .select('id, action, status, reference_type, reference_id, release_reason')
+      .eq('user_id', userId)
+      .in('id', ids);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Get credit reservations error:', error);
+    throw error;
+  }
+}
+
+/**
+ * The user's Stripe payments (recorded by the Stripe webhook), newest first
+ */
+export async function getUserPayments(
+  userId: number,
+  { from, to, limit = 1000, after }: HistoryRange = {}
+): Promise<PaymentRow[]> {
+  try {
+    let query = supabase
+      .from('payments')
+      .select('id, amount, currency, credits_added, status, stripe_payment_intent_id, stripe_session_id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    if (after) query = query.or(afterPosition(after));
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Get payments error:', error);
+    throw error;
+  }
+}
+
+/**
+ * What /api/send-email does when the spam risk score reaches the threshold
+ *
+ * alter table users
+ *   add column spam_check_mode text not null default 'warn'
+ *     check (spam_check_mode in ('off', 'warn', 'block')),
+ *   add column spam_threshold integer not null default 60
+ *     check (spam_threshold between 1 and 100);
+ */
+export interface SpamSettings {
+  mode: 'off' | 'warn' | 'block';
+  threshold: number;
+}
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = { mode: 'warn', threshold: 60 };
+
+export async function getSpamSettings(userId: number | string): Promise<SpamSettings> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('spam_check_mode, spam_threshold')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return {
+      mode: data?.spam_check_mode ?? DEFAULT_SPAM_SETTINGS.mode,
+      threshold: data?.spam_threshold ?? DEFAULT_SPAM_SETTINGS.threshold,
+    };
+  } catch (error) {
+    console.error('Get spam settings error:', error);
+    throw error;
+  }
+}
+
+export async function updateSpamSettings(userId: number | string, settings: SpamSettings) {
+  try {
     const { error } = await supabase
       .from('users')
-      .update({ credits: credits - 1 })
+      .update({ spam_check_mode: settings.mode, spam_threshold: settings.threshold })
       .eq('id', userId);
 
     if (error) throw error;
-    return true;
   } catch (error) {
-    console.error('Decrement credits error:', error);
+    console.error('Update spam settings error:', error);
     throw error;
   }
 }
 
+/**
+ * Provenance stored with a handled reply. researchId links the prospect's reply to the
+ * research (and so the email prompt version) it answers, for experiment comparisons
+ *
+ * alter table user_responses
+ *   add column research_id bigint references user_researches(id) on delete set null,
+ *   add column prompt_version text,
+ *   add column model text;
+ */
+export interface ResponseExtras {
+  researchId?: number;
+  promptVersion?: string;
+  model?: string;
+}
+
 export async function saveUserResponse(
   userId: number,
   angleUsed: string,
@@ -122,10 +642,11 @@ export async function saveUserResponse(
   urgency: string,
   originalEmail: string,
   prospectResponse: string,
-  generatedReplies: any
-) {
+  generatedReplies: any,
+  extras: ResponseExtras = {}
+): Promise<number> {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('user_responses')
       .insert([
         {
@@ -137,24 +658,51 @@ export async function saveUserResponse(
           original_email: originalEmail,
           prospect_response: prospectResponse,
           generated_replies: generatedReplies,
+          research_id: extras.researchId ?? null,
+          prompt_version: extras.promptVersion ?? null,
+          model: extras.model ?? null,
         },
-      ]);
+      ])
+      .select('id')
+      .single();
 
     if (error) throw error;
+    return data.id;
   } catch (error) {
     console.error('Save user response error:', error);
     throw error;
   }
 }
 
+/**
+ * Optional analysis signals stored alongside the angles, plus which prompt
+ * version (see lib/prompts.ts) and model produced them
+ *
+ * alter table user_researches add column technologies jsonb;
+ * alter table user_researches add column prompt_version text, add column model text;
+ * alter table user_researches add column language text, add column site_language text;
+ * alter table user_researches add column knowledge_ids bigint[];
+ */
+export interface ResearchExtras {
+  technologies?: DetectedTechnology[];
+  promptVersion?: string;
+  model?: string;
+  // Language the angles were written in, and the one detected on the site
+  language?: string;
+  siteLanguage?: string;
+  // Knowledge items given to the prompt as proof
+  knowledgeIds?: number[];
+}
+
 export async function saveUserResearch(
   userId: number,
   url: string,
   service: string,
-  angles: any
-) {
+  angles: any,
+  extras: ResearchExtras = {}
+): Promise<number> {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('user_researches')
       .insert([
         {
@@ -162,10 +710,19 @@ export async function saveUserResearch(
           url,
           service,
           angles,
+          technologies: extras.technologies ?? null,
+          prompt_version: extras.promptVersion ?? null,
+          model: extras.model ?? null,
+          language: extras.language ?? null,
+          site_language: extras.siteLanguage ?? null,
+          knowledge_ids: extras.knowledgeIds ?? null,
         },
-      ]);
+      ])
+      .select('id')
+      .single();
 
     if (error) throw error;
+    return data.id;
   } catch (error) {
     console.error('Save user research error:', error);
     throw error;
@@ -269,15 +826,23 @@ export async function getGlobalResponseStats() {
   }
 }
 
+/**
+ * alter table user_researches add column email_prompt_version text, add column email_model text;
+ */
 export async function updateResearchEmails(
   userId: number,
   url: string,
-  generatedEmails: any
+  generatedEmails: any,
+  provenance: { promptVersion?: string; model?: string } = {}
 ) {
   try {
     const { error } = await supabase
       .from('user_researches')
-      .update({ generated_emails: generatedEmails })
+      .update({
+        generated_emails: generatedEmails,
+        email_prompt_version: provenance.promptVersion ?? null,
+        email_model: provenance.model ?? null,
+      })
       .eq('user_id', userId)
       .eq('url', url)
       .order('created_at', { ascending: false })
@@ -320,4 +885,592 @@ export async function deleteUserResponse(userId: number, responseId: number) {
   }
 }
 
+export async function getUserResearchById(userId: number, researchId: number) {
+  try {
+    const { data, error } = await supabase
+      .from('user_researches')
+      .select('*')
+      .eq('id', researchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get research error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Id of the user's most recent research for the URL, or null if they never analyzed it
+ */
+export async function getLatestUserResearchId(userId: number, url: string): Promise<number | null> {
+  try {
+    const { data, error } = await supabase
+      .from('user_researches')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('url', url)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  } catch (error) {
+    console.error('Get latest research error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Claim the email set included with an analysis; true only for the one request that
+ * flips the flag, so concurrent requests can't all get it
+ *
+ * alter table user_researches add column emails_included_used boolean not null default false;
+ * update user_researches set emails_included_used = true where generated_emails is not null;
+ */
+export async function claimIncludedEmails(userId: number, researchId: number): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('user_researches')
+      .update({ emails_included_used: true })
+      .eq('id', researchId)
+      .eq('user_id', userId)
+      .eq('emails_included_used', false)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch (error) {
+    console.error('Claim included emails error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Hand the included email set back after a generation that produced nothing
+ */
+export async function releaseIncludedEmails(userId: number, researchId: number) {
+  try {
+    const { error } = await supabase
+      .from('user_researches')
+      .update({ emails_included_used: false })
+      .eq('id', researchId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Release included emails error:', error);
+    throw error;
+  }
+}
+
+export async function getUserResponseById(userId: number, responseId: number) {
+  try {
+    const { data, error } = await supabase
+      .from('user_responses')
+      .select('*')
+      .eq('id', responseId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get response error:', error);
+    throw error;
+  }
+}
+
+export interface PromptOutcomeRows {
+  researches: {
+    id: number;
+    prompt_version: string | null;
+    model: string | null;
+    email_prompt_version: string | null;
+    email_model: string | null;
+  }[];
+  responses: {
+    research_id: number | null;
+    sentiment: string | null;
+    objection_type: string | null;
+  }[];
+}
+
+/**
+ * Rows needed to compare prompt versions, across all users, created since the given date
+ */
+export async function getPromptOutcomeRows(since: string): Promise<PromptOutcomeRows> {
+  try {
+    const researches = await selectAllPages<PromptOutcomeRows['researches'][number]>((from, to) =>
+      supabase
+        .from('user_researches')
+        .select('id, prompt_version, model, email_prompt_version, email_model')
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+
+    const responses = await selectAllPages<PromptOutcomeRows['responses'][number]>((from, to) =>
+      supabase
+        .from('user_responses')
+        .select('research_id, sentiment, objection_type')
+        .not('research_id', 'is', null)
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+
+    return { researches, responses };
+  } catch (error) {
+    console.error('Get prompt outcome rows error:', error);
+    throw error;
+  }
+}
+
+/**
+ * LLM usage ledger, one row per model call (repair retries included in the row)
+ *
+ * create table llm_usage (
+ *   id bigserial primary key,
+ *   user_id bigint references users(id) on delete set null,
+ *   feature text not null,
+ *   provider text not null,
+ *   model text not null,
+ *   prompt_version text,
+ *   prompt_tokens integer not null,
+ *   completion_tokens integer not null,
+ *   tokens_estimated boolean not null default false,
+ *   latency_ms integer not null,
+ *   attempts integer not null default 1,
+ *   repairs integer not null default 0,
+ *   outcome text not null default 'success' check (outcome in ('success', 'failed', 'cancelled')),
+ *   cost_usd numeric(12, 6) not null,
+ *   created_at timestamptz not null default now()
+ * );
+ * create index llm_usage_created_at_idx on llm_usage (created_at);
+ */
+export interface LLMUsageRow {
+  user_id: number | null;
+  feature: string;
+  provider: string;
+  model: string;
+  prompt_version: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  tokens_estimated: boolean;
+  latency_ms: number;
+  attempts: number;
+  repairs: number;
+  outcome: 'success' | 'failed' | 'cancelled';
+  cost_usd: number;
+}
+
+export async function insertLLMUsage(row: LLMUsageRow) {
+  try {
+    const { error } = await supabase.from('llm_usage').insert([row]);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Insert LLM usage error:', error);
+    throw error;
+  }
+}
+
+export interface LLMUsageReportRow extends LLMUsageRow {
+  id: number;
+  created_at: string;
+  // Plan of the user who made the call
+  users: { subscription_plan: string | null } | null;
+}
+
+/**
+ * Every usage row since the given date, oldest first
+ */
+export async function getLLMUsageRows(since: string): Promise<LLMUsageReportRow[]> {
+  try {
+    return await selectAllPages<LLMUsageReportRow>((from, to) =>
+      supabase
+        .from('llm_usage')
+        .select('*, users(subscription_plan)')
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error('Get LLM usage error:', error);
+    throw error;
+  }
+}
+
+export interface CreditSpendReportRow {
+  user_id: number;
+  kind: 'spend' | 'refund';
+  amount: number;
+  users: { subscription_plan: string | null } | null;
+}
+
+/**
+ * Every spend and refund in the credit ledger since the given date, with the user's plan
+ */
+export async function getCreditSpendRows(since: string): Promise<CreditSpendReportRow[]> {
+  try {
+    return await selectAllPages<CreditSpendReportRow>((from, to) =>
+      supabase
+        .from('credit_ledger')
+        .select('user_id, kind, amount, users(subscription_plan)')
+        .in('kind', ['spend', 'refund'])
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+        .returns<CreditSpendReportRow[]>()
+    );
+  } catch (error) {
+    console.error('Get credit spend error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Scrape cache, shared by all users
+ *
+ * create table scrape_cache (
+ *   normalized_url text primary key,
+ *   content_hash text not null,
+ *   result jsonb not null,
+ *   etag text,
+ *   last_modified text,
+ *   fetched_at timestamptz not null default now(),
+ *   expires_at timestamptz not null
+ * );
+ */
+export interface ScrapeCacheRow {
+  normalized_url: string;
+  content_hash: string;
+  result: ScrapeResult;
+  etag: string | null;
+  last_modified: string | null;
+  fetched_at: string;
+  expires_at: string;
+}
+
+export async function getScrapeCacheEntry(normalizedUrl: string): Promise<ScrapeCacheRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from('scrape_cache')
+      .select('*')
+      .eq('normalized_url', normalizedUrl)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get scrape cache error:', error);
+    throw error;
+  }
+}
+
+export async function upsertScrapeCacheEntry(entry: ScrapeCacheRow) {
+  try {
+    const { error } = await supabase
+      .from('scrape_cache')
+      .upsert(entry, { onConflict: 'normalized_url' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Upsert scrape cache error:', error);
+    throw error;
+  }
+}
+
+export async function extendScrapeCacheEntry(normalizedUrl: string, expiresAt: string) {
+  try {
+    const { error } = await supabase
+      .from('scrape_cache')
+      .update({ expires_at: expiresAt })
+      .eq('normalized_url', normalizedUrl);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Extend scrape cache error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Saved generation profiles (see GenerationProfileSchema); at most one default per user
+ *
+ * create table generation_profiles (
+ *   id bigserial primary key,
+ *   user_id bigint not null references users(id) on delete cascade,
+ *   name text not null,
+ *   profile jsonb not null,
+ *   is_default boolean not null default false,
+ *   created_at timestamptz not null default now(),
+ *   updated_at timestamptz not null default now(),
+ *   unique (user_id, name)
+ * );
+ */
+export interface GenerationProfileRow {
+  id: number;
+  user_id: number;
+  name: string;
+  profile: GenerationProfile;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export async function listGenerationProfiles(userId: number): Promise<GenerationProfileRow[]> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('List generation profiles error:', error);
+    throw error;
+  }
+}
+
+export async function getGenerationProfile(userId: number, profileId: number): Promise<GenerationProfileRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .select('*')
+      .eq('id', profileId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get generation profile error:', error);
+    throw error;
+  }
+}
+
+export async function getDefaultGenerationProfile(userId: number): Promise<GenerationProfileRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_default', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get default generation profile error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Make a profile the user's default and clear the previous one in a single statement;
+ * callers first save the profile itself, so a missing row or duplicate name leaves the
+ * old default in place
+ *
+ * create or replace function set_default_generation_profile(p_user_id bigint, p_profile_id bigint)
+ * returns void language sql as $$
+ *   update generation_profiles set is_default = (id = p_profile_id)
+ *   where user_id = p_user_id and (id = p_profile_id or is_default);
+ * $$;
+ */
+async function setDefaultGenerationProfile(userId: number, profileId: number) {
+  const { error } = await supabase.rpc('set_default_generation_profile', {
+    p_user_id: userId,
+    p_profile_id: profileId,
+  });
+
+  if (error) throw error;
+}
+
+export async function createGenerationProfile(
+  userId: number,
+  fields: { name: string; profile: GenerationProfile; isDefault: boolean }
+): Promise<GenerationProfileRow> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .insert({ user_id: userId, name: fields.name, profile: fields.profile, is_default: false })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!fields.isDefault) return data;
+
+    await setDefaultGenerationProfile(userId, data.id);
+    return { ...data, is_default: true };
+  } catch (error) {
+    console.error('Create generation profile error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Returns null when the profile doesn't exist or belongs to someone else
+ */
+export async function updateGenerationProfile(
+  userId: number,
+  profileId: number,
+  fields: { name?: string; profile?: GenerationProfile; isDefault?: boolean }
+): Promise<GenerationProfileRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .update({
+        ...(fields.name !== undefined && { name: fields.name }),
+        ...(fields.profile !== undefined && { profile: fields.profile }),
+        ...(fields.isDefault === false && { is_default: false }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', profileId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || !fields.isDefault) return data;
+
+    await setDefaultGenerationProfile(userId, profileId);
+    return { ...data, is_default: true };
+  } catch (error) {
+    console.error('Update generation profile error:', error);
+    throw error;
+  }
+}
+
+export async function deleteGenerationProfile(userId: number, profileId: number): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('generation_profiles')
+      .delete()
+      .eq('id', profileId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch (error) {
+    console.error('Delete generation profile error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sender knowledge base: offerings, customer stories, metrics and differentiators
+ * that prompts can cite as proof (see lib/knowledge.ts)
+ *
+ * create table knowledge_items (
+ *   id bigserial primary key,
+ *   user_id bigint not null references users(id) on delete cascade,
+ *   kind text not null check (kind in ('offering', 'customer_story', 'metric', 'differentiator')),
+ *   title text not null,
+ *   content text not null,
+ *   tags text[] not null default '{}',
+ *   created_at timestamptz not null default now(),
+ *   updated_at timestamptz not null default now()
+ * );
+ * create index knowledge_items_user_idx on knowledge_items (user_id);
+ */
+export interface KnowledgeItemRow {
+  id: number;
+  user_id: number;
+  kind: KnowledgeItemInput['kind'];
+  title: string;
+  content: string;
+  tags: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * The user's items, newest first; restricted to ids when given
+ */
+export async function getKnowledgeItems(userId: number, ids?: number[]): Promise<KnowledgeItemRow[]> {
+  try {
+    let query = supabase.from('knowledge_items').select('*').eq('user_id', userId);
+    if (ids) query = query.in('id', ids);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Get knowledge items error:', error);
+    throw error;
+  }
+}
+
+export async function createKnowledgeItem(userId: number, item: KnowledgeItemInput): Promise<KnowledgeItemRow> {
+  try {
+    const { data, error } = await supabase
+      .from('knowledge_items')
+      .insert({ user_id: userId, kind: item.kind, title: item.title, content: item.content, tags: item.tags ?? [] })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Create knowledge item error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Returns null when the item doesn't exist or belongs to someone else
+ */
+export async function updateKnowledgeItem(
+  userId: number,
+  itemId: number,
+  fields: Partial<KnowledgeItemInput>
+): Promise<KnowledgeItemRow | null> {
+  try {
+    const { data, error } = await supabase
+      .from('knowledge_items')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Update knowledge item error:', error);
+    throw error;
+  }
+}
+
+export async function deleteKnowledgeItem(userId: number, itemId: number): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('knowledge_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch (error) {
+    console.error('Delete knowledge item error:', error);
+    throw error;
+  }
+}
+
 export { supabase };
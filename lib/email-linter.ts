@@ -0,0 +1,259 @@
+/**
+ * Deterministic quality checks for generated emails
+ *
+ * Scores each variant and follow-up against the rules GENERATE_EMAILS_PROMPT asks for.
+ * Errors are hard rules (a variant that breaks one is rewritten); warnings only lower
+ * the score. Pure functions with no server dependencies, so the dashboard can lint
+ * emails saved before linting existed.
+ *
+ * Phrase lists, readability and the You/I ratio are English-specific, so emails in
+ * other languages are only checked for length, links and the hook.
+ */
+
+export type EmailKind = 'variant' | 'followUp';
+
+export type LintRule =
+  | 'forbidden_phrase'
+  | 'spam_trigger'
+  | 'word_limit'
+  | 'subject_length'
+  | 'sentence_length'
+  | 'readability'
+  | 'you_i_ratio'
+  | 'link_count'
+  | 'hook_first_line';
+
+export interface LintViolation {
+  rule: LintRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface EmailLintReport {
+  // 0-100
+  score: number;
+  // No hard-rule violations
+  passed: boolean;
+  violations: LintViolation[];
+  stats: {
+    words: number;
+    subjectLength: number;
+    longestSentence: number;
+    readabilityGrade: number;
+    youCount: number;
+    iCount: number;
+    links: number;
+  };
+}
+
+// Generated variants and follow-ups, or anything else with a subject and body
+export interface LintableEmail {
+  subject?: string;
+  body?: string;
+}
+
+export interface EmailLintSummary {
+  variants: EmailLintReport[];
+  followUps: EmailLintReport[];
+  // Variants rewritten because they failed a hard rule
+  rewrites: number;
+}
+
+// Mirrors the forbidden phrases in generate_emails@v1
+const FORBIDDEN_PHRASES = [
+  'i hope this email finds you well',
+  'unlock value',
+  'leverage',
+  'synergies',
+  'world-class',
+  'cutting-edge',
+  'we help industry leaders like',
+  'optimize',
+  'enhance your existing',
+  'innovative solutions',
+];
+
+const SPAM_TRIGGERS = ['free', 'discount', 'urgent'];
+
+const LIMITS: Record<EmailKind, { words: number; subject: number }> = {
+  variant: { words: 120, subject: 50 },
+  followUp: { words: 80, subject: 40 },
+};
+
+const MAX_SENTENCE_WORDS = 15;
+// "Words a 12-year-old knows": roughly US grade 6, with some slack
+const MAX_READABILITY_GRADE = 8;
+const MIN_YOU_I_RATIO = 3;
+const MAX_LINKS = 1;
+
+const PENALTY = { error: 20, warning: 5 };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function words(text: string): string[] {
+  return text.match(/[\p{L}\p{N}'’-]+/gu) || [];
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => words(sentence).length > 0);
+}
+
+// Vowel-group heuristic; good enough for a grade estimate
+function syllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/**
+ * Flesch-Kincaid grade level
+ */
+export function readabilityGrade(text: string): number {
+  const allWords = words(text);
+  const sentenceCount = Math.max(1, sentences(text).length);
+  if (allWords.length === 0) return 0;
+
+  const syllableCount = allWords.reduce((total, word) => total + syllables(word), 0);
+  const grade = 0.39 * (allWords.length / sentenceCount) + 11.8 * (syllableCount / allWords.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export interface LintOptions {
+  hook?: string;
+  // ISO 639-1 code of the email's language; defaults to English
+  language?: string;
+}
+
+export function lintEmail(
+  { subject = '', body = '' }: LintableEmail,
+  kind: EmailKind,
+  options: LintOptions = {}
+): EmailLintReport {
+  const email = { subject, body };
+  const english = !options.language || options.language === 'en';
+  const violations: LintViolation[] = [];
+  const text = `${email.subject}\n${email.body}`;
+  const lower = text.toLowerCase();
+  const limits = LIMITS[kind];
+
+  for (const phrase of english ? FORBIDDEN_PHRASES : []) {
+    if (new RegExp(`\\b${escapeRegExp(phrase)}`, 'i').test(lower)) {
+      violations.push({ rule: 'forbidden_phrase', severity: 'error', message: `Uses forbidden phrase "${phrase}"` });
+    }
+  }
+
+  for (const trigger of english ? SPAM_TRIGGERS : []) {
+    if (new RegExp(`\\b${trigger}\\b`, 'i').test(lower)) {
+      violations.push({ rule: 'spam_trigger', severity: 'error', message: `Contains spam trigger "${trigger}"` });
+    }
+  }
+
+  const bodyWords = words(email.body).length;
+  if (bodyWords > limits.words) {
+    violations.push({
+      rule: 'word_limit',
+      severity: 'error',
+      message: `Body is ${bodyWords} words (max ${limits.words})`,
+    });
+  }
+
+  if (email.subject.length > limits.subject) {
+    violations.push({
+      rule: 'subject_length',
+      severity: 'error',
+      message: `Subject is ${email.subject.length} characters (max ${limits.subject})`,
+    });
+  }
+
+  const sentenceLengths = sentences(email.body).map((sentence) => words(sentence).length);
+  const longSentences = sentenceLengths.filter((length) => length > MAX_SENTENCE_WORDS).length;
+  if (longSentences > 0) {
+    violations.push({
+      rule: 'sentence_length',
+      severity: 'warning',
+      message: `${longSentences} sentence${longSentences === 1 ? ' is' : 's are'} over ${MAX_SENTENCE_WORDS} words`,
+    });
+  }
+
+  const grade = readabilityGrade(email.body);
+  if (english && grade > MAX_READABILITY_GRADE) {
+    violations.push({
+      rule: 'readability',
+      severity: 'warning',
+      message: `Reading grade ${grade} (aim for ${MAX_READABILITY_GRADE} or lower)`,
+    });
+  }
+
+  // "We" and "our" count as talking about yourself
+  const youCount = countMatches(email.body, /\b(you|your|yours|yourself|you're|you've|you'll|you'd)\b/gi);
+  const iCount = countMatches(email.body, /\b(I|I'm|I've|I'll|I'd|me|my|mine|we|we're|we've|our|ours|us)\b/gi);
+  if (english && iCount > 0 && youCount / iCount < MIN_YOU_I_RATIO) {
+    violations.push({
+      rule: 'you_i_ratio',
+      severity: 'warning',
+      message: `You/I ratio is ${youCount}:${iCount} (aim for ${MIN_YOU_I_RATIO}:1 or more)`,
+    });
+  }
+
+  const links = countMatches(email.body, /\b(?:https?:\/\/|www\.)\S+/gi);
+  if (links > MAX_LINKS) {
+    violations.push({ rule: 'link_count', severity: 'warning', message: `${links} links (max ${MAX_LINKS})` });
+  }
+
+  if (kind === 'variant' && options.hook) {
+    const firstLine = email.body.split('\n').find((line) => line.trim()) || '';
+    if (!normalize(firstLine).includes(normalize(options.hook))) {
+      violations.push({ rule: 'hook_first_line', severity: 'warning', message: 'First line does not use the hook' });
+    }
+  }
+
+  const score = Math.max(
+    0,
+    100 - violations.reduce((total, violation) => total + PENALTY[violation.severity], 0)
+  );
+
+  return {
+    score,
+    passed: violations.every((violation) => violation.severity !== 'error'),
+    violations,
+    stats: {
+      words: bodyWords,
+      subjectLength: email.subject.length,
+      longestSentence: Math.max(0, ...sentenceLengths),
+      readabilityGrade: grade,
+      youCount,
+      iCount,
+      links,
+    },
+  };
+}
+
+export function lintGeneratedEmails(
+  emails: { variants: LintableEmail[]; followUps: LintableEmail[] },
+  hook?: string,
+  rewrites = 0,
+  language?: string
+): EmailLintSummary {
+  return {
+    variants: emails.variants.map((variant) => lintEmail(variant, 'variant', { hook, language })),
+    followUps: emails.followUps.map((followUp) => lintEmail(followUp, 'followUp', { language })),
+    rewrites,
+  };
+}
+
+/**
+ * Violations as a bullet list, for asking the model to fix them
+ */
+export function describeViolations(report: EmailLintReport): string {
+  return report.violations.map((violation) => `- ${violation.message}`).join('\n');
+}
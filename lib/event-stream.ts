@@ -0,0 +1,69 @@
+import { handleError } from './error-handler';
+
+/**
+ * Server-Sent Events responses for long-running routes (analysis, email generation)
+ * Errors thrown by the handler are sent as an `error` event with the same
+ * { error, code } body handleError would have returned
+ */
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Comment lines keep proxies from closing an idle connection while the model thinks
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+export function createEventStream(
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  let closed = false;
+
+  // The client going away (tab closed, Cancel clicked) aborts the work in progress
+  requestSignal?.addEventListener('abort', () => controller.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          streamController.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const send: SendEvent = (event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+
+      try {
+        await run(send, controller.signal);
+      } catch (error) {
+        const body = await handleError(error).json();
+        send('error', { error: body.error, code: body.code });
+      } finally {
+        clearInterval(keepAlive);
+        if (!closed) {
+          closed = true;
+          streamController.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,222 @@
+import type { Angle } from './llm/schemas';
+import type { ScrapedPage } from './scraper';
+import { formatMetadataForPrompt, SiteMetadata } from './metadata';
+import { formatTechnologiesForPrompt, DetectedTechnology } from './tech-fingerprint';
+import { formatHiringForPrompt, HiringSignals } from './hiring';
+
+/**
+ * Evidence grounding: checks that each angle's evidence actually appears in what we scraped
+ *
+ * The prompt asks for traceable quotes, but models paraphrase and occasionally invent them.
+ * Each evidence string is fuzzy-matched (word overlap plus word order) against every page and
+ * the structured signals the prompt was given; the best match supplies the source URL, the
+ * character offsets in that page's text and a snippet to highlight. No server dependencies,
+ * so the research page can import the types.
+ */
+
+export type GroundingStatus = 'grounded' | 'partial' | 'ungrounded';
+
+export type EvidenceSourceKind = 'page' | 'structured_data' | 'technologies' | 'hiring';
+
+export interface EvidenceSource {
+  kind: EvidenceSourceKind;
+  // Page URL; null for signals that aren't a single page
+  url: string | null;
+  text: string;
+}
+
+export interface EvidenceGrounding {
+  // 0-1; 1 is a verbatim quote
+  score: number;
+  status: GroundingStatus;
+  source: EvidenceSourceKind | null;
+  sourceUrl: string | null;
+  // Character offsets of the match in the source text
+  start: number | null;
+  end: number | null;
+  snippet: { before: string; match: string; after: string } | null;
+}
+
+export type GroundedAngle = Angle & { grounding: EvidenceGrounding };
+
+// At or above: the quote is on the page. Between the two: paraphrased or partly invented
+export const GROUNDED_SCORE = 0.8;
+export const PARTIAL_SCORE = 0.5;
+
+// Context shown either side of the match
+const SNIPPET_CONTEXT_CHARS = 80;
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Lowercase and strip accents, so "Café" in the quote matches "cafe" on the page
+function normalizeToken(token: string): string {
+  return token.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Grouped numbers ("4,000", "1.250.000") are one token, so they match "4000"
+const TOKEN_PATTERN = /\p{N}{1,3}(?:[.,]\p{N}{3})+(?!\p{N})|[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(TOKEN_PATTERN))) {
+    const start = match.index ?? 0;
+    tokens.push({ value: normalizeToken(match[0]).replace(/[.,]/g, ''), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+function bigrams(values: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 0; i < values.length - 1; i++) pairs.add(`${values[i]} ${values[i + 1]}`);
+  return pairs;
+}
+
+export function groundingStatus(score: number): GroundingStatus {
+  if (score >= GROUNDED_SCORE) return 'grounded';
+  if (score >= PARTIAL_SCORE) return 'partial';
+  return 'ungrounded';
+}
+
+/**
+ * Pages plus the structured signals the analysis prompt saw, in prompt order
+ */
+export function buildEvidenceSources(signals: {
+  pages: Pick<ScrapedPage, 'url' | 'text'>[];
+  metadata?: SiteMetadata;
+  technologies?: DetectedTechnology[];
+  hiring?: HiringSignals;
+}): EvidenceSource[] {
+  const sources: EvidenceSource[] = [
+    { kind: 'structured_data', url: null, text: formatMetadataForPrompt(signals.metadata) },
+    { kind: 'technologies', url: null, text: formatTechnologiesForPrompt(signals.technologies) },
+    { kind: 'hiring', url: null, text: formatHiringForPrompt(signals.hiring) },
+    ...signals.pages.map((page) => ({ kind: 'page' as const, url: page.url, text: page.text })),
+  ];
+  return sources.filter((source) => source.text.trim().length > 0);
+}
+
+interface SourceMatch {
+  score: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Best-matching window of the source: a sliding window a little longer than the evidence
+ * (pages have words the quote skipped), scored on shared words, then on shared word pairs
+ * so a shuffled paraphrase scores below a quote. Listings (technologies, roles, structured
+ * data) have no prose order to keep, so only shared words count there.
+ */
+function matchSource(evidence: string[], source: Token[], ordered: boolean): SourceMatch | null {
+  const size = Math.min(evidence.length + Math.ceil(evidence.length * 0.25) + 1, source.length);
+  if (size === 0) return null;
+
+  const wanted = new Map<string, number>();
+  evidence.forEach((value) => wanted.set(value, (wanted.get(value) || 0) + 1));
+
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: -1, index: 0 };
+
+  const add = (value: string) => {
+    const count = (inWindow.get(value) || 0) + 1;
+    inWindow.set(value, count);
+    if (count <= (wanted.get(value) || 0)) matched++;
+  };
+  const remove = (value: string) => {
+    const count = inWindow.get(value) || 0;
+    if (count <= (wanted.get(value) || 0)) matched--;
+    inWindow.set(value, count - 1);
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    add(source[i].value);
+    if (i >= size) remove(source[i - size].value);
+    if (i >= size - 1 && matched > best.matched) best = { matched, index: i - size + 1 };
+  }
+  if (best.matched <= 0) return null;
+
+  // Trim the window to the words that matched, so the highlight starts and ends on the quote
+  let first = best.index;
+  let last = best.index + size - 1;
+  while (first < last && !wanted.has(source[first].value)) first++;
+  while (last > first && !wanted.has(source[last].value)) last--;
+
+  const windowValues = source.slice(first, last + 1).map((token) => token.value);
+  const unigramScore = best.matched / evidence.length;
+  const evidencePairs = bigrams(evidence);
+  const windowPairs = bigrams(windowValues);
+  const sharedPairs = Array.from(evidencePairs).filter((pair) => windowPairs.has(pair)).length;
+  const bigramScore = ordered && evidencePairs.size > 0 ? sharedPairs / evidencePairs.size : unigramScore;
+
+  return {
+    score: Math.round(((unigramScore + bigramScore) / 2) * 100) / 100,
+    start: source[first].start,
+    end: source[last].end,
+  };
+}
+
+function snippetFor(text: string, start: number, end: number): EvidenceGrounding['snippet'] {
+  const from = Math.max(0, start - SNIPPET_CONTEXT_CHARS);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT_CHARS);
+  return {
+    before: `${from > 0 ? '…' : ''}${text.substring(from, start).trimStart()}`,
+    match: text.substring(start, end),
+    after: `${text.substring(end, to).trimEnd()}${to < text.length ? '…' : ''}`,
+  };
+}
+
+/**
+ * Where an evidence string comes from, and how closely it matches
+ * preferredUrl (the page the model cited) wins ties
+ */
+export function groundEvidence(evidence: string, sources: EvidenceSource[], preferredUrl?: string): EvidenceGrounding {
+  const evidenceTokens = tokenize(evidence).map((token) => token.value);
+  let best: { source: EvidenceSource; match: SourceMatch } | null = null;
+
+  for (const source of sources) {
+    const match = matchSource(evidenceTokens, tokenize(source.text), source.kind === 'page');
+    if (!match) continue;
+    const better =
+      !best ||
+      match.score > best.match.score ||
+      (match.score === best.match.score && !!preferredUrl && source.url === preferredUrl);
+    if (better) best = { source, match };
+  }
+
+  if (!best) {
+    return { score: 0, status: 'ungrounded', source: null, sourceUrl: null, start: null, end: null, snippet: null };
+  }
+
+  const { source, match } = best;
+  const status = groundingStatus(match.score);
+  // A few shared words aren't a location worth pointing at
+  if (status === 'ungrounded') {
+    return { score: match.score, status, source: null, sourceUrl: null, start: null, end: null, snippet: null };
+  }
+
+  return {
+    score: match.score,
+    status,
+    source: source.kind,
+    sourceUrl: source.url,
+    start: match.start,
+    end: match.end,
+    snippet: snippetFor(source.text, match.start, match.end),
+  };
+}
+
+/**
+ * Ground every angle; a match on a page replaces the sourceUrl the model cited
+ */
+export function verifyAngles(angles: Angle[], sources: EvidenceSource[]): GroundedAngle[] {
+  return angles.map((angle) => {
+    const grounding = groundEvidence(angle.evidence, sources, angle.sourceUrl);
+    const sourceUrl = grounding.status !== 'ungrounded' && grounding.sourceUrl ? grounding.sourceUrl : angle.sourceUrl;
+    return { ...angle, sourceUrl, grounding };
+  });
+}
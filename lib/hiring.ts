@@ -0,0 +1,358 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { assertPublicUrl, guardedHttpAgent, guardedHttpsAgent } from './url-guard';
+import { SCRAPER_USER_AGENT, isAllowedByRobots, withHostLimit } from './robots';
+
+/**
+ * Hiring signals: careers pages, embedded ATS job boards and open roles
+ *
+ * Jobs come from JSON-LD JobPosting blocks, static Greenhouse/Lever/Workable markup and,
+ * when a page embeds or links a board, the ATS's public job board API.
+ */
+
+export type AtsProvider = 'greenhouse' | 'lever' | 'ashby' | 'workable';
+
+export interface JobOpening {
+  title: string;
+  department?: string;
+  location?: string;
+  // YYYY-MM-DD when known
+  postedAt?: string;
+  url?: string;
+  source: AtsProvider | 'json-ld' | 'careers-page';
+}
+
+export interface AtsBoard {
+  provider: AtsProvider;
+  // Board token / company slug used by the provider's public API
+  token: string;
+  // Page the board was found on
+  foundOn: string;
+}
+
+export interface HiringSignals {
+  careersPages: string[];
+  boards: AtsBoard[];
+  jobs: JobOpening[];
+  // Openings found before the list was capped
+  totalOpenings: number;
+}
+
+interface HtmlPage {
+  url: string;
+  html: string;
+}
+
+const MAX_JOBS = 25;
+const MAX_BOARDS = 2;
+const MAX_API_BYTES = 2_000_000;
+
+const CAREERS_PATH = /careers|jobs|join-us|hiring|work-with-us|open-positions|vacancies/i;
+const CAREERS_HEADING = /careers|open (positions|roles)|job openings|we'?re hiring|join (our|the) team|work with us/i;
+
+// Embed scripts, iframes and links that identify a board; the first group is the token
+const BOARD_PATTERNS: { provider: AtsProvider; pattern: RegExp }[] = [
+  { provider: 'greenhouse', pattern: /boards\.greenhouse\.io\/embed\/job_board(?:\/js)?\?for=([\w-]+)/gi },
+  { provider: 'greenhouse', pattern: /(?:job-)?boards(?:-api)?\.greenhouse\.io\/(?:v1\/boards\/)?(?!embed\b)([\w-]+)/gi },
+  { provider: 'lever', pattern: /jobs\.(?:eu\.)?lever\.co\/([\w-]+)/gi },
+  { provider: 'ashby', pattern: /jobs\.ashbyhq\.com\/([\w.-]+)/gi },
+  { provider: 'workable', pattern: /apply\.workable\.com\/(?!api\b)([\w-]+)/gi },
+  { provider: 'workable', pattern: /\/\/([\w-]+)\.workable\.com/gi },
+];
+
+// Path segments that look like tokens in the patterns above but are not
+const IGNORED_TOKENS = new Set(['www', 'apply', 'embed', 'api', 'jobs', 'static', 'assets', 'v1', 'js']);
+
+export function emptyHiringSignals(): HiringSignals {
+  return { careersPages: [], boards: [], jobs: [], totalOpenings: 0 };
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim() || undefined;
+  return undefined;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(typeof value === 'number' ? value : String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().substring(0, 10);
+}
+
+export function isCareersPage(url: string, html: string): boolean {
+  if (CAREERS_PATH.test(new URL(url).pathname)) return true;
+  const $ = cheerio.load(html);
+  return CAREERS_HEADING.test(`${$('title').first().text()} ${$('h1').first().text()}`);
+}
+
+/**
+ * Find embedded or linked ATS job boards in raw HTML
+ */
+export function detectAtsBoards(html: string, pageUrl: string): AtsBoard[] {
+  const boards = new Map<string, AtsBoard>();
+
+  for (const { provider, pattern } of BOARD_PATTERNS) {
+    for (const match of Array.from(html.matchAll(pattern))) {
+      const token = match[1].toLowerCase();
+      if (IGNORED_TOKENS.has(token)) continue;
+      const key = `${provider}:${token}`;
+      if (!boards.has(key)) boards.set(key, { provider, token, foundOn: pageUrl });
+    }
+  }
+
+  return Array.from(boards.values());
+}
+
+function jobsFromJsonLd($: ReturnType<typeof cheerio.load>, pageUrl: string): JobOpening[] {
+  const jobs: JobOpening[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const parsed = JSON.parse($(el).contents().text());
+      const queue = Array.isArray(parsed) ? [...parsed] : [parsed];
+      while (queue.length > 0) {
+        const node = queue.shift();
+        if (!node || typeof node !== 'object') continue;
+        if (Array.isArray(node['@graph'])) queue.push(...node['@graph']);
+        if (node['@type'] !== 'JobPosting') continue;
+
+        const title = asText(node.title);
+        if (!title) continue;
+        const place = Array.isArray(node.jobLocation) ? node.jobLocation[0] : node.jobLocation;
+        const address = place?.address;
+        jobs.push({
+          title,
+          department: asText(node.occupationalCategory) || asText(node.industry),
+          location:
+            node.jobLocationType === 'TELECOMMUTE'
+              ? 'Remote'
+              : [address?.addressLocality, address?.addressRegion, address?.addressCountry?.name || address?.addressCountry]
+                  .map(asText)
+                  .filter(Boolean)
+                  .join(', ') || undefined,
+          postedAt: toIsoDate(node.datePosted),
+          url: asText(node.url) || pageUrl,
+          source: 'json-ld',
+        });
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore the block
+    }
+  });
+
+  return jobs;
+}
+
+/**
+ * Extract openings from JSON-LD and server-rendered ATS markup on a page
+ */
+export function extractJobsFromHtml(html: string, pageUrl: string): JobOpening[] {
+  const $ = cheerio.load(html);
+  const jobs = jobsFromJsonLd($, pageUrl);
+  const absolute = (href?: string) => {
+    try {
+      return href ? new URL(href, pageUrl).toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Greenhouse hosted/embedded board: <div class="opening"><a>Title</a><span class="location">
+  $('.opening').each((_, el) => {
+    const link = $(el).find('a').first();
+    const title = asText(link.text());
+    if (!title) return;
+    jobs.push({
+      title,
+      department: asText($(el).closest('.level-0, section').find('h2, h3').first().text()),
+      location: asText($(el).find('.location').text()),
+      url: absolute(link.attr('href')),
+      source: 'greenhouse',
+    });
+  });
+
+  // Lever hosted board: <div class="posting"><h5 data-qa="posting-name">
+  $('.posting').each((_, el) => {
+    const title = asText($(el).find('[data-qa="posting-name"], .posting-title h5').first().text());
+    if (!title) return;
+    jobs.push({
+      title,
+      department: asText($(el).find('.posting-categories .department, .posting-categories .team').first().text()),
+      location: asText($(el).find('.posting-categories .location, .sort-by-location').first().text()),
+      url: absolute($(el).find('a.posting-title, a').first().attr('href')),
+      source: 'lever',
+    });
+  });
+
+  // Workable widget: <li data-ui="job"><h3 data-ui="job-title">
+  $('[data-ui="job"]').each((_, el) => {
+    const title = asText($(el).find('[data-ui="job-title"]').first().text());
+    if (!title) return;
+    jobs.push({
+      title,
+      department: asText($(el).find('[data-ui="job-department"]').first().text()),
+      location: asText($(el).find('[data-ui="job-location"]').first().text()),
+      url: absolute($(el).find('a').first().attr('href')),
+      source: 'workable',
+    });
+  });
+
+  // Plain links straight to individual ATS postings
+  $('a[href]').each((_, el) => {
+    const href = absolute($(el).attr('href'));
+    const title = asText($(el).text());
+    if (!href || !title || title.length > 120) return;
+    const provider: AtsProvider | null = /greenhouse\.io\/[\w-]+\/jobs\/\d+/.test(href)
+      ? 'greenhouse'
+      : /jobs\.(eu\.)?lever\.co\/[\w-]+\/[0-9a-f-]{36}/.test(href)
+        ? 'lever'
+        : /jobs\.ashbyhq\.com\/[\w.-]+\/[0-9a-f-]{36}/.test(href)
+          ? 'ashby'
+          : /workable\.com\/.*\/j\/[0-9A-F]+/i.test(href)
+            ? 'workable'
+            : null;
+    if (provider) jobs.push({ title, url: href, source: provider });
+  });
+
+  return jobs;
+}
+
+async function fetchJson(url: string): Promise<any | null> {
+  try {
+    await assertPublicUrl(url);
+    if (!(await isAllowedByRobots(url))) return null;
+
+    const response = await withHostLimit(url, () =>
+      axios.get(url, {
+        timeout: 8000,
+        maxContentLength: MAX_API_BYTES,
+        maxRedirects: 0,
+        httpAgent: guardedHttpAgent,
+        httpsAgent: guardedHttpsAgent,
+        headers: { 'User-Agent': SCRAPER_USER_AGENT, 'Accept': 'application/json' },
+      })
+    );
+    return response.data;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`[Hiring] Job board API failed for ${url}: ${errorMsg}`);
+    return null;
+  }
+}
+
+/**
+ * Read open roles from an ATS's public job board API
+ */
+export async function fetchAtsJobs(board: AtsBoard): Promise<JobOpening[]> {
+  const token = encodeURIComponent(board.token);
+
+  switch (board.provider) {
+    case 'greenhouse': {
+      const data = await fetchJson(`https://boards-api.greenhouse.io/v1/boards/${token}/departments`);
+      return (data?.departments || []).flatMap((department: any) =>
+        (department.jobs || []).map((job: any) => ({
+          title: asText(job.title) || '',
+          department: asText(department.name),
+          location: asText(job.location?.name),
+          postedAt: toIsoDate(job.first_published || job.updated_at),
+          url: asText(job.absolute_url),
+          source: 'greenhouse' as const,
+        }))
+      );
+    }
+    case 'lever': {
+      const data = await fetchJson(`https://api.lever.co/v0/postings/${token}?mode=json`);
+      return (Array.isArray(data) ? data : []).map((job: any) => ({
+        title: asText(job.text) || '',
+        department: asText(job.categories?.department) || asText(job.categories?.team),
+        location: asText(job.categories?.location),
+        postedAt: toIsoDate(job.createdAt),
+        url: asText(job.hostedUrl),
+        source: 'lever' as const,
+      }));
+    }
+    case 'ashby': {
+      const data = await fetchJson(`https://api.ashbyhq.com/posting-api/job-board/${token}`);
+      return (data?.jobs || []).map((job: any) => ({
+        title: asText(job.title) || '',
+        department: asText(job.department) || asText(job.team),
+        location: job.isRemote ? 'Remote' : asText(job.location),
+        postedAt: toIsoDate(job.publishedAt),
+        url: asText(job.jobUrl),
+        source: 'ashby' as const,
+      }));
+    }
+    case 'workable': {
+      const data = await fetchJson(`https://apply.workable.com/api/v1/widget/accounts/${token}`);
+      return (data?.jobs || []).map((job: any) => ({
+        title: asText(job.title) || '',
+        department: asText(job.department),
+        location: job.telecommuting ? 'Remote' : [job.city, job.country].map(asText).filter(Boolean).join(', ') || undefined,
+        postedAt: toIsoDate(job.published_on),
+        url: asText(job.shortlink) || asText(job.url),
+        source: 'workable' as const,
+      }));
+    }
+  }
+}
+
+/**
+ * Gather hiring signals from crawled pages, querying at most a couple of ATS boards
+ */
+export async function collectHiringSignals(pages: HtmlPage[]): Promise<HiringSignals> {
+  const signals = emptyHiringSignals();
+  const boards = new Map<string, AtsBoard>();
+  const jobs: JobOpening[] = [];
+
+  for (const page of pages) {
+    if (isCareersPage(page.url, page.html)) signals.careersPages.push(page.url);
+    detectAtsBoards(page.html, page.url).forEach((board) => {
+      const key = `${board.provider}:${board.token}`;
+      if (!boards.has(key)) boards.set(key, board);
+    });
+    jobs.push(...extractJobsFromHtml(page.html, page.url));
+  }
+
+  signals.boards = Array.from(boards.values());
+
+  const apiJobs = await Promise.all(signals.boards.slice(0, MAX_BOARDS).map((board) => fetchAtsJobs(board)));
+  // API results first: they carry departments and dates that markup often lacks
+  const seen = new Set<string>();
+  const unique = [...apiJobs.flat(), ...jobs].filter((job) => {
+    if (!job.title) return false;
+    const key = `${job.title.toLowerCase()}|${(job.location || '').toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // Newest first; undated openings keep their page order at the end
+  unique.sort((a, b) => (b.postedAt || '').localeCompare(a.postedAt || ''));
+
+  signals.totalOpenings = unique.length;
+  signals.jobs = unique.slice(0, MAX_JOBS);
+
+  if (signals.jobs.length > 0 || signals.boards.length > 0) {
+    console.log(`[Hiring] ${signals.totalOpenings} openings, boards: ${signals.boards.map((b) => b.provider).join(', ') || 'none'}`);
+  }
+
+  return signals;
+}
+
+/**
+ * Render hiring signals as compact lines for the analysis prompt (empty string if none)
+ */
+export function formatHiringForPrompt(signals?: HiringSignals): string {
+  if (!signals || (signals.jobs.length === 0 && signals.careersPages.length === 0)) return '';
+
+  const lines: string[] = [];
+  if (signals.careersPages.length > 0) lines.push(`Careers pages: ${signals.careersPages.join(', ')}`);
+  if (signals.boards.length > 0) lines.push(`Job boards: ${signals.boards.map((b) => `${b.provider} (${b.token})`).join(', ')}`);
+  lines.push(`Open roles found: ${signals.totalOpenings}${signals.totalOpenings > signals.jobs.length ? ` (showing ${signals.jobs.length})` : ''}`);
+
+  for (const job of signals.jobs) {
+    const details = [job.department, job.location, job.postedAt && `posted ${job.postedAt}`].filter(Boolean).join(' | ');
+    lines.push(`- ${job.title}${details ? ` [${details}]` : ''}${job.url ? ` (${job.url})` : ''}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * Retrieval over the sender's knowledge base (offerings, customer stories, metrics,
+ * differentiators) so prompts can cite real proof instead of inventing it
+ *
+ * Keyword scoring, not embeddings: knowledge bases are a few dozen short items per user,
+ * and matching on the prospect's own words is easy to explain. No server dependencies;
+ * callers load the items (see getKnowledgeItems in lib/db.ts).
+ */
+
+export const KNOWLEDGE_KINDS = ['offering', 'customer_story', 'metric', 'differentiator'] as const;
+
+export type KnowledgeKind = (typeof KNOWLEDGE_KINDS)[number];
+
+export interface KnowledgeItem {
+  id: number;
+  kind: KnowledgeKind;
+  title: string;
+  content: string;
+  tags?: string[];
+}
+
+export interface KnowledgeSnippet {
+  id: number;
+  kind: KnowledgeKind;
+  title: string;
+  content: string;
+  score: number;
+}
+
+export const KIND_LABELS: Record<KnowledgeKind, string> = {
+  offering: 'Offering',
+  customer_story: 'Customer story',
+  metric: 'Metric',
+  differentiator: 'Differentiator',
+};
+
+// Snippets per prompt, and characters per snippet, to keep prompts small
+const MAX_SNIPPETS = 5;
+const MAX_SNIPPET_CHARS = 400;
+
+// A match in a tag or the title says more than one in the body
+const FIELD_WEIGHTS = { tags: 3, title: 2, content: 1 };
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'our', 'that', 'this', 'are', 'from', 'have', 'will',
+  'was', 'were', 'has', 'had', 'not', 'but', 'all', 'can', 'its', 'their', 'they', 'them', 'what',
+  'when', 'who', 'how', 'more', 'into', 'than', 'then', 'out', 'about', 'over', 'also', 'just',
+  'www', 'http', 'https', 'com', 'page',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length >= 3 && !STOPWORDS.has(token)
+  );
+}
+
+function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+  return counts;
+}
+
+/**
+ * Most relevant items for the query text (prospect content, hook, evidence...)
+ * Items sharing no terms with the query are left out
+ */
+export function rankKnowledge(items: KnowledgeItem[], query: string, limit = MAX_SNIPPETS): KnowledgeSnippet[] {
+  const queryTerms = new Set(tokenize(query));
+  if (items.length === 0 || queryTerms.size === 0) return [];
+
+  const indexed = items.map((item) => ({
+    item,
+    fields: {
+      tags: countTokens(tokenize((item.tags || []).join(' '))),
+      title: countTokens(tokenize(item.title)),
+      content: countTokens(tokenize(item.content)),
+    },
+  }));
+
+  // Rarer terms across the knowledge base count for more
+  const documentFrequency = new Map<string, number>();
+  for (const { fields } of indexed) {
+    const terms = new Set([...fields.tags.keys(), ...fields.title.keys(), ...fields.content.keys()]);
+    terms.forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  }
+
+  return indexed
+    .map(({ item, fields }) => {
+      let score = 0;
+      queryTerms.forEach((term) => {
+        const df = documentFrequency.get(term);
+        if (!df) return;
+        const idf = Math.log(1 + items.length / df);
+        for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+          // Cap repeats so one keyword-stuffed item can't win on a single term
+          score += Math.min(fields[field].get(term) || 0, 3) * FIELD_WEIGHTS[field] * idf;
+        }
+      });
+      return { id: item.id, kind: item.kind, title: item.title, content: item.content, score: Math.round(score * 100) / 100 };
+    })
+    .filter((snippet) => snippet.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Render snippets as compact lines for a prompt (empty string if there are none)
+ */
+export function formatKnowledgeForPrompt(snippets?: KnowledgeSnippet[]): string {
+  if (!snippets || snippets.length === 0) return '';
+
+  return snippets
+    .map((snippet) => {
+      const content =
+        snippet.content.length > MAX_SNIPPET_CHARS
+          ? `${snippet.content.substring(0, MAX_SNIPPET_CHARS)}...`
+          : snippet.content;
+      return `- [${KIND_LABELS[snippet.kind]}] ${snippet.title}: ${content.replace(/\s+/g, ' ')}`;
+    })
+    .join('\n');
+}
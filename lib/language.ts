@@ -0,0 +1,103 @@
+/**
+ * Language detection for prospect sites and the languages we write emails in
+ * No server dependencies, so pages can use the language list too
+ */
+
+export const LANGUAGE_CODES = ['en', 'es', 'de', 'fr', 'pt', 'it'] as const;
+
+export type LanguageCode = (typeof LANGUAGE_CODES)[number];
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+  pt: 'Portuguese',
+  it: 'Italian',
+};
+
+export interface DetectedLanguage {
+  // ISO 639-1; may be a language we don't write in (e.g. "nl")
+  code: string;
+  // 0-1
+  confidence: number;
+  source: 'markup' | 'content' | 'default';
+}
+
+// Short, very frequent words that rarely overlap between these languages
+const STOPWORDS: Record<LanguageCode, string[]> = {
+  en: ['the', 'and', 'with', 'for', 'you', 'your', 'our', 'that', 'this', 'are', 'from', 'have', 'will'],
+  es: ['el', 'los', 'las', 'del', 'que', 'para', 'con', 'una', 'por', 'nuestro', 'nuestra', 'más', 'como', 'sus'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'nicht', 'wir', 'ihre', 'sie', 'auf', 'den', 'ein'],
+  fr: ['le', 'les', 'des', 'et', 'est', 'pour', 'avec', 'une', 'nous', 'vous', 'votre', 'dans', 'sur', 'pas'],
+  pt: ['os', 'das', 'dos', 'não', 'para', 'com', 'uma', 'você', 'seu', 'sua', 'nosso', 'mais', 'como', 'são'],
+  it: ['il', 'gli', 'della', 'che', 'per', 'con', 'una', 'sono', 'nostro', 'nostra', 'più', 'come', 'anche', 'questo'],
+};
+
+// Enough text to be representative without scanning a 30k-character crawl
+const SAMPLE_CHARS = 6000;
+// Below this many stopword hits the content vote is too weak to trust
+const MIN_HITS = 8;
+
+export function isSupportedLanguage(code: string | undefined | null): code is LanguageCode {
+  return !!code && (LANGUAGE_CODES as readonly string[]).includes(code);
+}
+
+/**
+ * "de-DE", "pt_BR", "EN" -> "de", "pt", "en"
+ */
+export function normalizeLanguageTag(tag: string | undefined | null): string | null {
+  const match = (tag || '').trim().toLowerCase().match(/^([a-z]{2,3})(?:[-_]|$)/);
+  return match ? match[1] : null;
+}
+
+function detectFromContent(text: string): { code: LanguageCode; confidence: number; hits: number } | null {
+  const words = text.substring(0, SAMPLE_CHARS).toLowerCase().match(/\p{L}+/gu) || [];
+  const counts = Object.fromEntries(LANGUAGE_CODES.map((code) => [code, 0])) as Record<LanguageCode, number>;
+  const lookup = new Map<string, LanguageCode[]>();
+  for (const code of LANGUAGE_CODES) {
+    for (const word of STOPWORDS[code]) lookup.set(word, [...(lookup.get(word) || []), code]);
+  }
+
+  for (const word of words) {
+    for (const code of lookup.get(word) || []) counts[code]++;
+  }
+
+  const ranked = LANGUAGE_CODES.map((code) => ({ code, hits: counts[code] })).sort((a, b) => b.hits - a.hits);
+  const total = ranked.reduce((sum, entry) => sum + entry.hits, 0);
+  if (ranked[0].hits < MIN_HITS) return null;
+
+  return { code: ranked[0].code, confidence: ranked[0].hits / total, hits: ranked[0].hits };
+}
+
+/**
+ * Language of a site: the declared <html lang>/og:locale unless the text clearly says otherwise
+ * (templates often ship with lang="en" regardless of content)
+ */
+export function detectLanguage(text: string, declared?: string | null): DetectedLanguage {
+  const markup = normalizeLanguageTag(declared);
+  const content = detectFromContent(text);
+
+  if (content && content.confidence >= 0.6 && content.code !== markup) {
+    return { code: content.code, confidence: Math.round(content.confidence * 100) / 100, source: 'content' };
+  }
+  if (markup) {
+    return { code: markup, confidence: content?.code === markup ? 1 : 0.8, source: 'markup' };
+  }
+  if (content) {
+    return { code: content.code, confidence: Math.round(content.confidence * 100) / 100, source: 'content' };
+  }
+  return { code: 'en', confidence: 0, source: 'default' };
+}
+
+/**
+ * Language to write in: the requested one, or for "auto" the site's own language when we support it
+ */
+export function resolveTargetLanguage(requested: LanguageCode | 'auto' | undefined, site: DetectedLanguage): LanguageCode {
+  if (requested && requested !== 'auto') return requested;
+  return isSupportedLanguage(site.code) ? site.code : 'en';
+}
+
+export function languageName(code: string): string {
+  return isSupportedLanguage(code) ? LANGUAGE_NAMES[code] : code;
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, GenerateResult, LLMProvider, StreamChunk, StructuredResult } from './types';
+import { generateValidated } from './structured';
+import { estimateTokens } from './json';
+import { VARIANT_TYPES } from './schemas';
+
+/**
+ * Deterministic fixture provider for tests and offline development
+ *
+ * If LLM_FIXTURES_DIR contains "<prompt hash>.json" ({ "text": "..." }) that recording is
+ * returned; otherwise a canned response is built for the prompt type, filled in with
+ * values read from the prompt so output stays plausible. Same prompt, same output.
+ * With LLM_FIXTURES_STRICT=true a missing recording is an error instead (eval replays).
+ */
+
+const FIXTURE_MODEL = 'fixture-v1';
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+}
+
+function readRecording(prompt: string): string | null {
+  const dir = process.env.LLM_FIXTURES_DIR;
+  if (!dir) return null;
+
+  const file = path.join(dir, `${hashPrompt(prompt)}.json`);
+  if (!fs.existsSync(file)) {
+    if (process.env.LLM_FIXTURES_STRICT === 'true') {
+      throw new Error(`No recording ${path.basename(file)} in ${dir} for this prompt; record it with the prompt version in use`);
+    }
+    return null;
+  }
+
+  const recording = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return typeof recording.text === 'string' ? recording.text : JSON.stringify(recording.text);
+}
+
+function promptField(prompt: string, label: string): string {
+  const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'));
+  return match ? match[1].trim() : '';
+}
+
+function cannedResponse(prompt: string): string {
+  const company = promptField(prompt, 'COMPANY') || 'the company';
+  const service = promptField(prompt, 'SERVICE TO SELL') || promptField(prompt, 'SERVICE') || 'our service';
+
+  if (prompt.includes('cold email angles')) {
+    const page = prompt.match(/### PAGE: (https?:\/\/\S+).*\n(.*)/);
+    return JSON.stringify({
+      companyName: company,
+      angles: [
+        {
+          type: 'content_marketing',
+          hook: `Your homepage pitch at ${company}`.substring(0, 49),
+          evidence: page?.[2].substring(0, 120) || `${company} website copy`,
+          sourceUrl: page?.[1] || '',
+          reasoning: 'Fixture angle based on the first page of content',
+          connection: `${service} fits how ${company} presents itself`,
+        },
+      ],
+    });
+  }
+
+  if (prompt.includes('Rewrite this cold email')) {
+    const hook = promptField(prompt, 'HOOK') || `Quick note for ${company}`;
+    return JSON.stringify({
+      type: promptField(prompt, 'EMAIL TYPE') || 'direct',
+      subject: hook.substring(0, 49),
+      body: `${hook}\n\nNoticed this on your site. Is it on your list this quarter? Happy to share how ${service} could help you.`,
+      reasoning: 'Fixture rewrite that follows the style rules',
+    });
+  }
+
+  if (prompt.includes('cold email variants')) {
+    const hook = promptField(prompt, 'HOOK') || `Quick note for ${company}`;
+    const variant = (type: string) => ({
+      type,
+      subject: hook.substring(0, 49),
+      body: `${hook}\n\nNoticed this while reading about ${company}. We do ${service}. Worth a quick chat?`,
+      reasoning: `Fixture ${type} variant`,
+    });
+    return JSON.stringify({
+      variants: VARIANT_TYPES.slice(0, Number(promptField(prompt, 'VARIANTS')) || 3).map(variant),
+      followUps: [
+        { day: 3, subject: `Re: ${hook}`.substring(0, 39), body: 'Bumping this in case it got buried.' },
+        { day: 7, subject: 'Close the loop?', body: 'If this is not a priority, just reply STOP.' },
+      ],
+    });
+  }
+
+  if (prompt.includes('cold email response')) {
+    return JSON.stringify({
+      analysis: {
+        sentiment: 'neutral',
+        objectionType: 'info_request',
+        urgency: 'medium',
+        buyingSignals: ['Asked a question'],
+        redFlags: [],
+        recommendedAction: 'Answer the question and suggest a short call',
+      },
+      replies: [
+        { variant: 'direct', subject: 'Re: your question', body: 'Good question. Short answer: yes. Open to 15 minutes this week?' },
+        { variant: 'soft', subject: 'Re: your question', body: 'Happy to share more detail. Want me to send a one-pager?' },
+      ],
+    });
+  }
+
+  return JSON.stringify({ text: `Fixture response ${hashPrompt(prompt)}` });
+}
+
+export function createFixtureProvider(): LLMProvider {
+  const generate = async (prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> => {
+    const text = readRecording(prompt) ?? cannedResponse(prompt);
+    return {
+      text,
+      provider: 'fixture',
+      model: options.model || FIXTURE_MODEL,
+      usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text), estimated: true },
+      latencyMs: 0,
+      attempts: 1,
+    };
+  };
+
+  return {
+    name: 'fixture',
+
+    generate,
+
+    generateStructured<T>(
+      prompt: string,
+      schema: ZodType<T, ZodTypeDef, unknown>,
+      options: GenerateOptions = {}
+    ): Promise<StructuredResult<T>> {
+      return generateValidated(generate, prompt, schema, options);
+    },
+
+    async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<StreamChunk> {
+      const { text, model } = await generate(prompt, options);
+      // Fixed-size chunks so consumers exercise incremental parsing
+      for (let i = 0; i < text.length; i += 64) {
+        yield { text: text.substring(i, i + 64), model };
+      }
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { GenerationConfig, GoogleGenerativeAI } from '@google/generative-ai';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, GenerateResult, LLMProvider, StreamChunk, StructuredResult, TokenUsage } from './types';
+import { estimateTokens, withTimeout } from './json';
+import { generateValidated, LLMUsageError } from './structured';
+
+// Tried in order: lite first (faster), then regular versions
+const DEFAULT_MODELS = ['gemini-2.5-flash-lite', 'gemini-2.0-flash-lite', 'gemini-2.0-flash'];
+
+let client: GoogleGenerativeAI | null = null;
+
+// Created on first use so importing this module never requires the key
+function getClient(): GoogleGenerativeAI {
+  if (!client) {
+    if (!process.env.GEMINI_API_KEY) {
+      console.error('❌ GEMINI_API_KEY is not configured!');
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+    client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  }
+  return client;
+}
+
+function getModels(options: GenerateOptions): string[] {
+  if (options.model) return [options.model];
+  const configured = (process.env.GEMINI_MODELS || '').split(',').map((name) => name.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_MODELS;
+}
+
+function getModel(modelName: string, options: GenerateOptions) {
+  // JSON mode (responseMimeType) is only exposed on v1beta and isn't typed in this SDK version
+  const generationConfig: GenerationConfig & { responseMimeType?: string } = {
+    maxOutputTokens: options.maxOutputTokens ?? 4096,
+    temperature: options.temperature ?? 1,
+    ...(options.json ? { responseMimeType: 'application/json' } : {}),
+  };
+
+  return getClient().getGenerativeModel(
+    { model: modelName, generationConfig },
+    options.json ? { apiVersion: 'v1beta' } : undefined
+  );
+}
+
+// usageMetadata is returned by the API but not typed in this SDK version
+function readUsage(response: unknown, prompt: string, text: string): TokenUsage {
+  const metadata = (response as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } })
+    .usageMetadata;
+  if (metadata?.promptTokenCount !== undefined) {
+    return {
+      promptTokens: metadata.promptTokenCount,
+      completionTokens: metadata.candidatesTokenCount ?? 0,
+      estimated: false,
+    };
+  }
+  return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text), estimated: true };
+}
+
+export function createGeminiProvider(): LLMProvider {
+  const generate = async (prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> => {
+    const models = getModels(options);
+    const startedAt = Date.now();
+    let lastError: Error | null = null;
+
+    for (const [index, modelName] of models.entries()) {
+      try {
+        const result = await withTimeout(
+          getModel(modelName, options).generateContent(prompt),
+          options.timeoutMs,
+          `Gemini API (${modelName})`
+        );
+        const text = result.response.text();
+        return {
+          text,
+          provider: 'gemini',
+          model: modelName,
+          usage: readUsage(result.response, prompt, text),
+          latencyMs: Date.now() - startedAt,
+          attempts: index + 1,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.warn(`❌ Gemini request failed with ${modelName}:`, lastError.message);
+        if (modelName !== models[models.length - 1]) {
+          console.log('Retrying with next model...');
+        }
+      }
+    }
+
+    // Counted as if each model read the prompt: a timed-out request is still billed
+    throw new LLMUsageError(lastError || new Error('Gemini request failed with all available models'), {
+      provider: 'gemini',
+      model: models[models.length - 1],
+      usage: { promptTokens: estimateTokens(prompt) * models.length, completionTokens: 0, estimated: true },
+      latencyMs: Date.now() - startedAt,
+      attempts: models.length,
+      repairs: 0,
+    });
+  };
+
+  return {
+    name: 'gemini',
+
+    generate,
+
+    generateStructured<T>(
+      prompt: string,
+      schema: ZodType<T, ZodTypeDef, unknown>,
+      options: GenerateOptions = {}
+    ): Promise<StructuredResult<T>> {
+      return generateValidated(generate, prompt, schema, options);
+    },
+
+    async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<StreamChunk> {
+      // Streams can't fall back mid-way, so only the first model is used
+      const [modelName] = getModels(options);
+      const result = await withTimeout(
+        getModel(modelName, options).generateContentStream(prompt),
+        options.timeoutMs,
+        `Gemini API (${modelName})`
+      );
+      for await (const chunk of result.stream) {
+        // The SDK can't cancel a request, so stop reading instead
+        if (options.signal?.aborted) return;
+        const text = chunk.text();
+        if (text) yield { text, model: modelName };
+      }
+    },
+  };
+}
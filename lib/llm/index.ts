@@ -0,0 +1,60 @@
+import { LLMFeature, LLMProvider, LLMProviderName } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createFixtureProvider } from './fixture';
+import { withRecording } from './recording';
+
+export type {
+  LLMFeature,
+  LLMProvider,
+  LLMProviderName,
+  GenerateOptions,
+  GenerateResult,
+  StreamChunk,
+  SpentUsage,
+  StructuredResult,
+  TokenUsage,
+} from './types';
+export { parseJsonResponse } from './json';
+export { generateValidated, streamValidated, LLMUsageError, spentBy } from './structured';
+
+const PROVIDER_FACTORIES: Record<LLMProviderName, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  fixture: createFixtureProvider,
+};
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Provider name for a feature: LLM_PROVIDER_<FEATURE>, then LLM_PROVIDER,
+ * then "fixture" under test and "gemini" everywhere else
+ */
+export function getProviderName(feature: LLMFeature): LLMProviderName {
+  const configured = (
+    process.env[`LLM_PROVIDER_${feature.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    (process.env.NODE_ENV === 'test' ? 'fixture' : 'gemini')
+  ).toLowerCase();
+
+  if (!(configured in PROVIDER_FACTORIES)) {
+    throw new Error(`Unknown LLM provider "${configured}" for ${feature} (expected gemini, openai or fixture)`);
+  }
+  return configured as LLMProviderName;
+}
+
+/**
+ * Provider for a feature; with LLM_RECORD_DIR set, live responses are also written
+ * there for the fixture provider to replay
+ */
+export function getLLMProvider(feature: LLMFeature): LLMProvider {
+  const name = getProviderName(feature);
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[name]();
+    const recordDir = process.env.LLM_RECORD_DIR;
+    if (recordDir && name !== 'fixture') provider = withRecording(provider, recordDir);
+    providers.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,82 @@
+/**
+ * Extract and parse the JSON object from a model response
+ * Tolerates markdown fences and prose around the object; anything else is left to
+ * the repair retry rather than patched with regexes
+ */
+export function parseJsonResponse<T = unknown>(raw: string): T {
+  // Remove markdown code blocks
+  const text = raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  // Find first { and last }
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    throw new Error(`Could not extract JSON from response: ${text.substring(0, 300)}`);
+  }
+
+  return JSON.parse(text.substring(firstBrace, lastBrace + 1));
+}
+
+/**
+ * Race a promise against a timeout, rejecting with a descriptive error
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, label: string): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timeout after ${timeoutMs / 1000} seconds`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Complete objects of a top-level array property in a partial JSON document
+ * e.g. the angles finished so far while `{"angles": [{...}, {...}, {"ty` is still streaming
+ */
+export function extractArrayItems(partial: string, key: string): string[] {
+  const opening = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(partial);
+  if (!opening) return [];
+
+  const items: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = opening.index + opening[0].length; i < partial.length; i++) {
+    const char = partial[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        items.push(partial.substring(start, i + 1));
+        start = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Rough token count for providers that don't report usage (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,149 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, GenerateResult, LLMProvider, StreamChunk, StructuredResult } from './types';
+import { generateValidated, LLMUsageError } from './structured';
+import { estimateTokens } from './json';
+
+/**
+ * OpenAI-compatible chat completions adapter
+ * Works with OpenAI and any server exposing /v1/chat/completions (Ollama, llama.cpp, vLLM)
+ */
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+function getConfig() {
+  return {
+    baseUrl: (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    // Local servers usually don't need a key
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+  };
+}
+
+async function requestCompletion(prompt: string, options: GenerateOptions, stream: boolean) {
+  const config = getConfig();
+  const model = options.model || config.model;
+
+  const controller = new AbortController();
+  const timer = options.timeoutMs ? setTimeout(() => controller.abort(), options.timeoutMs) : null;
+  options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+  try {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 1,
+        max_tokens: options.maxOutputTokens ?? 4096,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        stream,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible API error ${response.status}: ${detail.substring(0, 300)}`);
+    }
+
+    return { response, model, clearTimer: () => timer && clearTimeout(timer) };
+  } catch (error) {
+    if (timer) clearTimeout(timer);
+    if (error instanceof Error && error.name === 'AbortError' && !options.signal?.aborted) {
+      throw new Error(`OpenAI-compatible API (${model}) timeout after ${options.timeoutMs! / 1000} seconds`);
+    }
+    throw error;
+  }
+}
+
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const generate = async (prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> => {
+    const startedAt = Date.now();
+    const { response, model, clearTimer } = await requestCompletion(prompt, options, false).catch((error) => {
+      // Counted as if the prompt was read: a timed-out request is still billed
+      throw new LLMUsageError(error, {
+        provider: 'openai',
+        model: options.model || getConfig().model,
+        usage: { promptTokens: estimateTokens(prompt), completionTokens: 0, estimated: true },
+        latencyMs: Date.now() - startedAt,
+        attempts: 1,
+        repairs: 0,
+      });
+    });
+    try {
+      const body = await response.json();
+      const text = body.choices?.[0]?.message?.content || '';
+      // Local servers don't always report usage
+      const usage = body.usage?.prompt_tokens !== undefined
+        ? { promptTokens: body.usage.prompt_tokens, completionTokens: body.usage.completion_tokens ?? 0, estimated: false }
+        : { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text), estimated: true };
+      return {
+        text,
+        provider: 'openai',
+        model: body.model || model,
+        usage,
+        latencyMs: Date.now() - startedAt,
+        attempts: 1,
+      };
+    } finally {
+      clearTimer();
+    }
+  };
+
+  return {
+    name: 'openai',
+
+    generate,
+
+    generateStructured<T>(
+      prompt: string,
+      schema: ZodType<T, ZodTypeDef, unknown>,
+      options: GenerateOptions = {}
+    ): Promise<StructuredResult<T>> {
+      return generateValidated(generate, prompt, schema, options);
+    },
+
+    async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<StreamChunk> {
+      const { response, model, clearTimer } = await requestCompletion(prompt, options, true);
+      if (!response.body) {
+        clearTimer();
+        throw new Error('OpenAI-compatible API returned no stream body');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Server-sent events: one "data: {...}" line per chunk
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!data || data === '[DONE]' || !line.startsWith('data:')) continue;
+            try {
+              const parsed = JSON.parse(data);
+              const text = parsed.choices?.[0]?.delta?.content;
+              if (text) yield { text, model: parsed.model || model };
+            } catch {
+              // Ignore keep-alives and partial lines
+            }
+          }
+        }
+      } finally {
+        clearTimer();
+        reader.releaseLock();
+      }
+    },
+  };
+}
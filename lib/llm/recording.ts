@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, GenerateResult, LLMProvider, StreamChunk, StructuredResult } from './types';
+import { generateValidated } from './structured';
+import { hashPrompt } from './fixture';
+
+/**
+ * Records every response a provider returns as "<prompt hash>.json" in a directory,
+ * in the format the fixture provider replays (see LLM_FIXTURES_DIR), so a live run
+ * can be repeated offline with identical output
+ */
+
+function writeRecording(dir: string, prompt: string, text: string, provider: string, model: string) {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, `${hashPrompt(prompt)}.json`),
+      JSON.stringify({ text, provider, model, recordedAt: new Date().toISOString() }, null, 2)
+    );
+  } catch (error) {
+    // Recording is a side effect; the caller still gets its response
+    console.error('Write LLM recording error:', error);
+  }
+}
+
+export function withRecording(provider: LLMProvider, dir: string): LLMProvider {
+  const generate = async (prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> => {
+    const result = await provider.generate(prompt, options);
+    writeRecording(dir, prompt, result.text, result.provider, result.model);
+    return result;
+  };
+
+  return {
+    name: provider.name,
+
+    generate,
+
+    // Each repair attempt is a prompt of its own, so replays repair the same way
+    generateStructured<T>(
+      prompt: string,
+      schema: ZodType<T, ZodTypeDef, unknown>,
+      options: GenerateOptions = {}
+    ): Promise<StructuredResult<T>> {
+      return generateValidated(generate, prompt, schema, options);
+    },
+
+    async *stream(prompt: string, options: GenerateOptions = {}): AsyncIterable<StreamChunk> {
+      let text = '';
+      let model = '';
+      for await (const chunk of provider.stream(prompt, options)) {
+        text += chunk.text;
+        model = chunk.model;
+        yield chunk;
+      }
+      // A stream stopped early isn't a response worth replaying
+      if (!options.signal?.aborted) writeRecording(dir, prompt, text, provider.name, model);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+/**
+ * Output schemas for every model call
+ * Responses are validated against these; failures trigger a repair retry
+ */
+
+export const ANGLE_TYPES = [
+  'recent_achievement',
+  'product_launch',
+  'team_change',
+  'funding',
+  'hiring',
+  'content_marketing',
+  'tech_stack',
+  'market_problem',
+  'specific_metric',
+  'partnership_opportunity',
+  'platform_extension',
+] as const;
+
+const text = z.string().trim().min(1);
+
+export const AngleSchema = z.object({
+  type: z.enum(ANGLE_TYPES),
+  hook: text,
+  evidence: text,
+  // Empty when the model could not attribute the evidence to a page
+  sourceUrl: z.string().trim().optional(),
+  reasoning: text,
+  connection: text,
+});
+
+export const ProspectAnalysisSchema = z.object({
+  companyName: text,
+  angles: z.array(AngleSchema).min(1).max(3),
+});
+
+// In the order generation profiles pick them: three variants are direct, question, value-first
+export const VARIANT_TYPES = ['direct', 'question', 'value-first', 'observation', 'social-proof'] as const;
+
+export const EmailVariantSchema = z.object({
+  type: z.enum(VARIANT_TYPES),
+  subject: text,
+  body: text,
+  reasoning: z.string().trim().default(''),
+});
+
+export const FollowUpSchema = z.object({
+  day: z.coerce.number().int().positive(),
+  subject: text,
+  body: text,
+});
+
+export const GeneratedEmailsSchema = z.object({
+  variants: z.array(EmailVariantSchema).min(1),
+  followUps: z.array(FollowUpSchema).default([]),
+});
+
+export const ResponseAnalysisSchema = z.object({
+  sentiment: z.enum(['positive', 'neutral', 'negative', 'ghosting_prevention']),
+  objectionType: z.enum([
+    'price_concern',
+    'timing_issue',
+    'no_need',
+    'trust_barrier',
+    'brush_off',
+    'info_request',
+    'meeting_request',
+    'none',
+  ]),
+  urgency: z.enum(['high', 'medium', 'low']),
+  buyingSignals: z.array(z.string()).default([]),
+  redFlags: z.array(z.string()).default([]),
+  recommendedAction: text,
+});
+
+export const GeneratedReplySchema = z.object({
+  variant: z.enum(['direct', 'soft']),
+  subject: text,
+  body: text,
+});
+
+export const HandledResponseSchema = z.object({
+  analysis: ResponseAnalysisSchema,
+  replies: z.array(GeneratedReplySchema).min(1),
+});
+
+export type AngleType = (typeof ANGLE_TYPES)[number];
+export type Angle = z.infer<typeof AngleSchema>;
+export type ProspectAnalysis = z.infer<typeof ProspectAnalysisSchema>;
+export type EmailVariant = z.infer<typeof EmailVariantSchema>;
+export type FollowUp = z.infer<typeof FollowUpSchema>;
+export type GeneratedEmails = z.infer<typeof GeneratedEmailsSchema>;
+export type ResponseAnalysis = z.infer<typeof ResponseAnalysisSchema>;
+export type GeneratedReply = z.infer<typeof GeneratedReplySchema>;
+export type HandledResponse = z.infer<typeof HandledResponseSchema>;
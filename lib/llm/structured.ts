@@ -0,0 +1,188 @@
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { GenerateOptions, GenerateResult, LLMProvider, SpentUsage, StructuredResult, TokenUsage } from './types';
+import { estimateTokens, extractArrayItems, parseJsonResponse } from './json';
+
+// Extra attempts after the first response fails parsing or validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const REPAIR_PROMPT = (originalPrompt: string, previousOutput: string, problems: string) => `
+${originalPrompt}
+
+YOUR PREVIOUS RESPONSE WAS INVALID.
+Problems:
+${problems}
+
+Previous response:
+${previousOutput.substring(0, 6000)}
+
+Return ONLY the corrected JSON object that satisfies every requirement above.
+Keep all valid content; fix only what the problems list. No markdown, no explanation.
+`;
+
+/**
+ * A failed call that had already spent tokens; the usage ledger records `spent` so
+ * failures count toward cost. The message is the underlying error's.
+ */
+export class LLMUsageError extends Error {
+  constructor(error: unknown, public readonly spent: SpentUsage) {
+    super(error instanceof Error ? error.message : String(error));
+    this.name = 'LLMUsageError';
+  }
+}
+
+export function spentBy(error: unknown): SpentUsage | null {
+  return error instanceof LLMUsageError ? error.spent : null;
+}
+
+// Totals of two spends on the same call; the later one names the provider and model
+function addSpent(earlier: SpentUsage | null, later: SpentUsage | null): SpentUsage | null {
+  if (!earlier || !later) return earlier || later;
+  return {
+    ...later,
+    usage: {
+      promptTokens: earlier.usage.promptTokens + later.usage.promptTokens,
+      completionTokens: earlier.usage.completionTokens + later.usage.completionTokens,
+      estimated: earlier.usage.estimated || later.usage.estimated,
+    },
+    latencyMs: earlier.latencyMs + later.latencyMs,
+    attempts: earlier.attempts + later.attempts,
+    repairs: earlier.repairs + later.repairs,
+  };
+}
+
+// Rethrow with everything spent so far attached; errors that spent nothing pass through
+function withSpent(error: unknown, spent: SpentUsage | null): unknown {
+  const total = addSpent(spent, spentBy(error));
+  return total ? new LLMUsageError(error, total) : error;
+}
+
+function describeProblems(error: unknown): string {
+  if (error instanceof ZodError) {
+    return error.issues
+      .slice(0, 10)
+      .map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+  }
+  return `- Not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Generate in JSON mode, parse and validate against the schema; on failure, ask the
+ * model to repair its own output (up to MAX_REPAIR_ATTEMPTS) before giving up
+ */
+export async function generateValidated<T>(
+  generate: (prompt: string, options?: GenerateOptions) => Promise<GenerateResult>,
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: GenerateOptions = {}
+): Promise<StructuredResult<T>> {
+  let attemptPrompt = prompt;
+  let problems = '';
+  // Repairs are billed too, so totals cover every call
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, estimated: false };
+  let latencyMs = 0;
+  let attempts = 0;
+  let last: GenerateResult | null = null;
+  const spentSoFar = (repairs: number): SpentUsage | null =>
+    last && { provider: last.provider, model: last.model, usage: { ...usage }, latencyMs, attempts, repairs };
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let result: GenerateResult;
+    try {
+      result = await generate(attemptPrompt, { ...options, json: true });
+    } catch (error) {
+      throw withSpent(error, spentSoFar(attempt));
+    }
+    last = result;
+    usage.promptTokens += result.usage.promptTokens;
+    usage.completionTokens += result.usage.completionTokens;
+    usage.estimated = usage.estimated || result.usage.estimated;
+    latencyMs += result.latencyMs;
+    attempts += result.attempts;
+
+    try {
+      const data = schema.parse(parseJsonResponse(result.text));
+      if (attempt > 0) console.log(`✅ Structured output repaired after ${attempt} attempt(s)`);
+      return { ...result, usage, latencyMs, attempts, data, repairs: attempt };
+    } catch (error) {
+      problems = describeProblems(error);
+      console.warn(`Structured output invalid (${result.provider}/${result.model}, attempt ${attempt + 1}):\n${problems}`);
+      attemptPrompt = REPAIR_PROMPT(prompt, result.text, problems);
+    }
+  }
+
+  throw withSpent(
+    new Error(`Model output did not match the expected schema after ${MAX_REPAIR_ATTEMPTS} repair attempts:\n${problems}`),
+    spentSoFar(MAX_REPAIR_ATTEMPTS)
+  );
+}
+
+export interface StreamItemHandlers {
+  // Top-level array property -> schema each finished element must satisfy
+  items: Record<string, ZodType<unknown, ZodTypeDef, unknown>>;
+  onItem: (key: string, item: any, index: number) => void;
+}
+
+/**
+ * Stream a JSON response, reporting each array element (e.g. an angle) as soon as it
+ * is complete and valid. The full response is validated at the end; if the stream fails
+ * or doesn't validate, falls back to generateStructured (with repair retries).
+ */
+export async function streamValidated<T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  handlers: StreamItemHandlers,
+  options: GenerateOptions = {}
+): Promise<StructuredResult<T>> {
+  let text = '';
+  let model = options.model || '';
+  const emitted: Record<string, number> = {};
+  const startedAt = Date.now();
+  // Stream chunks carry no usage counts
+  const streamSpent = (): SpentUsage => ({
+    provider: provider.name,
+    model,
+    usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text), estimated: true },
+    latencyMs: Date.now() - startedAt,
+    attempts: 1,
+    repairs: 0,
+  });
+
+  try {
+    for await (const chunk of provider.stream(prompt, { ...options, json: true })) {
+      text += chunk.text;
+      model = chunk.model;
+
+      for (const [key, itemSchema] of Object.entries(handlers.items)) {
+        const items = extractArrayItems(text, key);
+        for (let index = emitted[key] ?? 0; index < items.length; index++) {
+          emitted[key] = index + 1;
+          try {
+            const parsed = itemSchema.safeParse(JSON.parse(items[index]));
+            if (parsed.success) handlers.onItem(key, parsed.data, index);
+          } catch {
+            // Left for the final validation to report
+          }
+        }
+      }
+    }
+
+    if (options.signal?.aborted) throw new Error('Stream cancelled');
+
+    const data = schema.parse(parseJsonResponse(text));
+    return { text, data, ...streamSpent() };
+  } catch (error) {
+    // The partial stream was billed whether or not anything comes of it
+    const spent = streamSpent();
+    if (options.signal?.aborted) throw withSpent(error, spent);
+    console.warn(`Streamed output unusable (${provider.name}), falling back to validated generation:`, describeProblems(error));
+
+    try {
+      const result = await provider.generateStructured(prompt, schema, options);
+      return { ...result, ...addSpent(spent, result)! };
+    } catch (fallbackError) {
+      throw withSpent(fallbackError, spent);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
+/**
+ * Provider-agnostic LLM interface
+ *
+ * Every feature talks to an LLMProvider; adapters translate to a vendor API
+ * (Gemini, OpenAI-compatible servers) or return deterministic fixtures.
+ */
+
+// Features that can be routed to different providers
+export type LLMFeature = 'analyze' | 'generate' | 'respond';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fixture';
+
+export interface GenerateOptions {
+  // Overrides the provider's default model (or model chain)
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Per attempt; providers abort the request when exceeded
+  timeoutMs?: number;
+  // Ask for a bare JSON object using the provider's JSON response mode, if it has one
+  json?: boolean;
+  // Cancels the request (or stops a stream) when the caller goes away
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // True when the provider didn't report counts and they were estimated from text length
+  estimated: boolean;
+}
+
+export interface GenerateResult {
+  text: string;
+  provider: LLMProviderName;
+  // Model that produced the text (after any fallbacks)
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+  // Models tried, including the one that succeeded (1 = no fallback)
+  attempts: number;
+}
+
+export interface StreamChunk {
+  text: string;
+  model: string;
+}
+
+// Usage, latency and attempts are summed over the repair retries
+export interface StructuredResult<T> extends GenerateResult {
+  data: T;
+  // Repair retries needed before the output validated
+  repairs: number;
+}
+
+// What a call spent before it failed (model errors, invalid output, cancelled streams)
+export interface SpentUsage {
+  provider: LLMProviderName;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+  attempts: number;
+  repairs: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  generate(prompt: string, options?: GenerateOptions): Promise<GenerateResult>;
+  // Generate a JSON object validated against the schema (with repair retries)
+  generateStructured<T>(
+    prompt: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options?: GenerateOptions
+  ): Promise<StructuredResult<T>>;
+  // Text chunks as they arrive
+  stream(prompt: string, options?: GenerateOptions): AsyncIterable<StreamChunk>;
+}
@@ -0,0 +1,250 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Structured metadata extraction (JSON-LD, OpenGraph, Twitter cards, meta tags)
+ * Runs on raw HTML before the scraper strips scripts and collapses text
+ */
+
+export interface ProductEntity {
+  name: string;
+  description?: string;
+  price?: string;
+  currency?: string;
+}
+
+export interface ArticleEntity {
+  headline: string;
+  datePublished?: string;
+  url?: string;
+}
+
+export interface SiteMetadata {
+  organizationName?: string;
+  legalName?: string;
+  description?: string;
+  logo?: string;
+  foundingDate?: string;
+  address?: string;
+  // Declared page language from <html lang> or og:locale, e.g. "de-DE"
+  language?: string;
+  socialProfiles: string[];
+  products: ProductEntity[];
+  articles: ArticleEntity[];
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+}
+
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'LocalBusiness', 'OnlineBusiness', 'NGO', 'EducationalOrganization'];
+const PRODUCT_TYPES = ['Product', 'Service', 'SoftwareApplication', 'WebApplication', 'MobileApplication', 'Offer'];
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'PressRelease'];
+
+const SOCIAL_HOSTS = /(^|\.)(linkedin\.com|twitter\.com|x\.com|facebook\.com|instagram\.com|youtube\.com|github\.com|tiktok\.com|crunchbase\.com)$/i;
+
+const MAX_PRODUCTS = 10;
+const MAX_ARTICLES = 10;
+
+export function emptyMetadata(): SiteMetadata {
+  return { socialProfiles: [], products: [], articles: [], openGraph: {}, twitter: {} };
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function imageUrl(value: any): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return imageUrl(value[0]);
+  return asText(value?.url) || asText(value?.contentUrl);
+}
+
+function formatAddress(value: any): string | undefined {
+  if (typeof value === 'string') return asText(value);
+  if (!value || typeof value !== 'object') return undefined;
+  const parts = [value.streetAddress, value.addressLocality, value.addressRegion, value.postalCode, value.addressCountry?.name || value.addressCountry]
+    .map(asText)
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function hasType(node: any, types: string[]): boolean {
+  return asArray(node?.['@type']).some((type) => typeof type === 'string' && types.includes(type));
+}
+
+/**
+ * Flatten JSON-LD blocks (arrays, @graph containers) into a list of typed nodes
+ */
+function collectJsonLdNodes($: ReturnType<typeof cheerio.load>): any[] {
+  const nodes: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).contents().text().trim();
+    if (!raw) return;
+
+    try {
+      const parsed = JSON.parse(raw);
+      const queue = asArray(parsed);
+      while (queue.length > 0) {
+        const node = queue.shift();
+        if (!node || typeof node !== 'object') continue;
+        if (Array.isArray(node['@graph'])) queue.push(...node['@graph']);
+        if (node['@type']) nodes.push(node);
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore the block rather than the page
+    }
+  });
+
+  return nodes;
+}
+
+function productFromNode(node: any): ProductEntity | null {
+  const name = asText(node.name) || asText(node.itemOffered?.name);
+  if (!name) return null;
+  const offer = asArray(node.offers)[0] || (hasType(node, ['Offer']) ? node : null);
+  return {
+    name,
+    description: asText(node.description)?.substring(0, 300),
+    price: asText(offer?.price) || asText(offer?.lowPrice),
+    currency: asText(offer?.priceCurrency),
+  };
+}
+
+export function extractMetadata(html: string, pageUrl: string): SiteMetadata {
+  const $ = cheerio.load(html);
+  const metadata = emptyMetadata();
+  const social = new Set<string>();
+
+  // OpenGraph, Twitter card and plain meta tags
+  $('meta').each((_, el) => {
+    const key = ($(el).attr('property') || $(el).attr('name') || '').trim().toLowerCase();
+    const content = asText($(el).attr('content'));
+    if (!key || !content) return;
+
+    if (key.startsWith('og:')) metadata.openGraph[key.substring(3)] = content;
+    else if (key.startsWith('twitter:')) metadata.twitter[key.substring(8)] = content;
+    else if (key === 'description') metadata.description = content;
+  });
+
+  for (const node of collectJsonLdNodes($)) {
+    if (hasType(node, ORGANIZATION_TYPES)) {
+      metadata.organizationName ??= asText(node.name);
+      metadata.legalName ??= asText(node.legalName);
+      metadata.logo ??= imageUrl(node.logo);
+      metadata.foundingDate ??= asText(node.foundingDate);
+      metadata.address ??= formatAddress(node.address);
+      metadata.description ??= asText(node.description);
+      asArray(node.sameAs).forEach((url) => typeof url === 'string' && social.add(url));
+    } else if (hasType(node, PRODUCT_TYPES)) {
+      const product = productFromNode(node);
+      if (product && metadata.products.length < MAX_PRODUCTS) metadata.products.push(product);
+    } else if (hasType(node, ARTICLE_TYPES)) {
+      const headline = asText(node.headline) || asText(node.name);
+      if (headline && metadata.articles.length < MAX_ARTICLES) {
+        metadata.articles.push({
+          headline,
+          datePublished: asText(node.datePublished) || asText(node.dateCreated),
+          url: asText(node.url) || asText(node.mainEntityOfPage?.['@id']) || pageUrl,
+        });
+      }
+    } else if (hasType(node, ['WebSite'])) {
+      metadata.organizationName ??= asText(node.publisher?.name);
+    }
+  }
+
+  // Article pages often only carry OpenGraph article tags
+  const publishedTime = asText($('meta[property="article:published_time"]').attr('content'));
+  if (metadata.articles.length === 0 && publishedTime && metadata.openGraph.title) {
+    metadata.articles.push({ headline: metadata.openGraph.title, datePublished: publishedTime, url: pageUrl });
+  }
+
+  // Social profiles linked from the page (usually header/footer icons)
+  $('a[href]').each((_, el) => {
+    try {
+      const link = new URL($(el).attr('href') || '', pageUrl);
+      if (SOCIAL_HOSTS.test(link.hostname) && link.pathname.length > 1) {
+        social.add(`${link.origin}${link.pathname.replace(/\/$/, '')}`);
+      }
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  });
+
+  metadata.socialProfiles = Array.from(social).slice(0, 10);
+  metadata.organizationName ??= metadata.openGraph.site_name;
+  metadata.logo ??= metadata.openGraph.image;
+  metadata.description ??= metadata.openGraph.description || metadata.twitter.description;
+  metadata.language = asText($('html').attr('lang')) || metadata.openGraph.locale;
+
+  return metadata;
+}
+
+/**
+ * Merge per-page metadata; the first page (homepage) wins for organization fields
+ */
+export function mergeMetadata(items: SiteMetadata[]): SiteMetadata {
+  const merged = emptyMetadata();
+  const social = new Set<string>();
+  const productNames = new Set<string>();
+  const articleHeadlines = new Set<string>();
+
+  for (const item of items) {
+    merged.organizationName ??= item.organizationName;
+    merged.legalName ??= item.legalName;
+    merged.description ??= item.description;
+    merged.logo ??= item.logo;
+    merged.foundingDate ??= item.foundingDate;
+    merged.address ??= item.address;
+    merged.language ??= item.language;
+    merged.openGraph = { ...item.openGraph, ...merged.openGraph };
+    merged.twitter = { ...item.twitter, ...merged.twitter };
+    item.socialProfiles.forEach((url) => social.add(url));
+
+    for (const product of item.products) {
+      if (!productNames.has(product.name) && merged.products.length < MAX_PRODUCTS) {
+        productNames.add(product.name);
+        merged.products.push(product);
+      }
+    }
+    for (const article of item.articles) {
+      if (!articleHeadlines.has(article.headline) && merged.articles.length < MAX_ARTICLES) {
+        articleHeadlines.add(article.headline);
+        merged.articles.push(article);
+      }
+    }
+  }
+
+  merged.socialProfiles = Array.from(social).slice(0, 10);
+  return merged;
+}
+
+/**
+ * Render metadata as compact lines for the analysis prompt (empty string if nothing useful)
+ */
+export function formatMetadataForPrompt(metadata?: SiteMetadata): string {
+  if (!metadata) return '';
+
+  const lines: string[] = [];
+  if (metadata.organizationName) lines.push(`Organization: ${metadata.organizationName}`);
+  if (metadata.legalName) lines.push(`Legal name: ${metadata.legalName}`);
+  if (metadata.description) lines.push(`Description: ${metadata.description}`);
+  if (metadata.foundingDate) lines.push(`Founded: ${metadata.foundingDate}`);
+  if (metadata.address) lines.push(`Address: ${metadata.address}`);
+  if (metadata.socialProfiles.length > 0) lines.push(`Social profiles: ${metadata.socialProfiles.join(', ')}`);
+
+  for (const product of metadata.products) {
+    const price = product.price ? ` (${product.price}${product.currency ? ` ${product.currency}` : ''})` : '';
+    lines.push(`Product/offer: ${product.name}${price}${product.description ? ` - ${product.description}` : ''}`);
+  }
+  for (const article of metadata.articles) {
+    lines.push(`Article: "${article.headline}"${article.datePublished ? ` published ${article.datePublished}` : ''}${article.url ? ` (${article.url})` : ''}`);
+  }
+
+  return lines.join('\n');
+}
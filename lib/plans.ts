@@ -0,0 +1,171 @@
+/**
+ * Plan catalogue: what each plan costs, grants and allows
+ * Checkout, the Stripe webhooks, the cron resets, send limits, rate limits, feature checks
+ * and the pricing page all read plans from here; credit costs per action live in
+ * lib/credit-pricing.ts
+ *
+ * Stripe IDs are per environment, picked by the STRIPE_SECRET_KEY mode. Test-mode IDs come
+ * from STRIPE_TEST_PRICE_ID_<PLAN> / STRIPE_TEST_PRODUCT_ID_<PLAN> and fall back to the
+ * live ones when unset.
+ */
+
+export const PLAN_IDS = ['free', 'starter', 'pro', 'unlimited'] as const;
+
+export type PlanId = (typeof PLAN_IDS)[number];
+
+export const FEATURES = ['csv_export', 'advanced_analytics', 'api_access', 'custom_templates'] as const;
+
+export type Feature = (typeof FEATURES)[number];
+
+export type StripeEnvironment = 'test' | 'live';
+
+export interface StripeIds {
+  productId: string;
+  priceId: string;
+}
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  // Product name shown at checkout
+  checkoutName: string;
+  priceUsd: number;
+  // Shown after the price on the pricing page, e.g. '/month'
+  period?: string;
+  // Credits a one-time checkout adds
+  purchaseCredits: number;
+  // Allowance a subscription resets to each period; null is an unlimited balance
+  monthlyCredits: number | null;
+  stripe: Record<StripeEnvironment, StripeIds> | null;
+  entitlements: Feature[];
+  // Emails per calendar month through /api/send-email
+  monthlySendLimit: number;
+  // Requests per hour per user
+  rateLimits: { analyze: number; generateEmails: number; respond: number };
+  // Pricing page bullets
+  highlights: string[];
+  highlighted?: boolean;
+}
+
+const DEFAULT_RATE_LIMITS: PlanDefinition['rateLimits'] = { analyze: 20, generateEmails: 30, respond: 50 };
+
+function stripeIds(plan: string, live: StripeIds): Record<StripeEnvironment, StripeIds> {
+  const key = plan.toUpperCase();
+  return {
+    live,
+    test: {
+      productId: process.env[`STRIPE_TEST_PRODUCT_ID_${key}`] || live.productId,
+      priceId: process.env[`STRIPE_TEST_PRICE_ID_${key}`] || live.priceId,
+    },
+  };
+}
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    checkoutName: 'Free',
+    priceUsd: 0,
+    purchaseCredits: 0,
+    monthlyCredits: 0,
+    stripe: null,
+    entitlements: [],
+    monthlySendLimit: 10,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    highlights: ['3 credits on signup'],
+  },
+  starter: {
+    id: 'starter',
+    name: 'Starter',
+    checkoutName: 'Starter Pack (10 credits)',
+    priceUsd: 9,
+    purchaseCredits: 10,
+    monthlyCredits: 10,
+    stripe: stripeIds('starter', { productId: 'prod_TXTkYzi88BPDuj', priceId: 'price_1SaOmf8WNN2WVhxAiNIFJeh7' }),
+    entitlements: [],
+    monthlySendLimit: 10,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    highlights: ['10 Researches', 'Email support', 'Basic analytics'],
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    checkoutName: 'Pro Pack (25 credits)',
+    priceUsd: 19,
+    purchaseCredits: 25,
+    monthlyCredits: 25,
+    stripe: stripeIds('pro', { productId: 'prod_TXTl3bWMgFAott', priceId: 'price_1SaOnV8WNN2WVhxANn4dQ7Ub' }),
+    entitlements: ['csv_export', 'advanced_analytics', 'api_access'],
+    monthlySendLimit: 500,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    highlights: ['25 Researches', 'Priority support', 'Advanced analytics', 'API access', 'CSV Export'],
+    highlighted: true,
+  },
+  unlimited: {
+    id: 'unlimited',
+    name: 'Unlimited',
+    checkoutName: 'Unlimited (999,999 credits)',
+    priceUsd: 29,
+    period: '/month',
+    purchaseCredits: 999999,
+    monthlyCredits: null,
+    stripe: stripeIds('unlimited', { productId: 'prod_TXTmV6qQoKYc4N', priceId: 'price_1SaOoz8WNN2WVhxA1exVFvOs' }),
+    entitlements: ['csv_export', 'advanced_analytics', 'api_access', 'custom_templates'],
+    monthlySendLimit: 999999,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    highlights: ['Unlimited Researches', '24/7 support', 'Advanced analytics', 'API access', 'Custom templates'],
+  },
+};
+
+// Plans that can be bought at checkout
+export const PAID_PLAN_IDS = ['starter', 'pro', 'unlimited'] as const satisfies readonly PlanId[];
+
+export type PaidPlanId = (typeof PAID_PLAN_IDS)[number];
+
+export function isPlanId(value: string | null | undefined): value is PlanId {
+  return (PLAN_IDS as readonly (string | null | undefined)[]).includes(value);
+}
+
+/**
+ * Plan for a users.subscription_plan value; no or unknown plan is Free
+ */
+export function getPlan(plan: string | null | undefined): PlanDefinition {
+  return PLANS[isPlanId(plan) ? plan : 'free'];
+}
+
+export function hasEntitlement(plan: string | null | undefined, feature: Feature): boolean {
+  return getPlan(plan).entitlements.includes(feature);
+}
+
+// Plans that include a feature, cheapest first, e.g. for upgrade messages
+export function plansWithEntitlement(feature: Feature): PlanDefinition[] {
+  return PLAN_IDS.map((id) => PLANS[id])
+    .filter((plan) => plan.entitlements.includes(feature))
+    .sort((a, b) => a.priceUsd - b.priceUsd);
+}
+
+// Plans whose subscription balance is unlimited rather than reset to a number
+export function isUnlimitedPlan(plan: string | null | undefined): boolean {
+  return getPlan(plan).monthlyCredits === null;
+}
+
+export const UNLIMITED_PLAN_IDS = PLAN_IDS.filter((id) => PLANS[id].monthlyCredits === null);
+
+export function stripeEnvironment(): StripeEnvironment {
+  return process.env.STRIPE_SECRET_KEY?.startsWith('sk_live_') ? 'live' : 'test';
+}
+
+export function getStripeIds(plan: PlanDefinition): StripeIds | null {
+  return plan.stripe?.[stripeEnvironment()] ?? null;
+}
+
+/**
+ * Plan a Stripe price or product belongs to, in either environment
+ */
+export function findPlanByStripeId(ids: { priceId?: string | null; productId?: string | null }): PlanDefinition | null {
+  const plans = PLAN_IDS.map((id) => PLANS[id]).filter((plan) => plan.stripe);
+  const matches = (key: keyof StripeIds, value: string | null | undefined) =>
+    value ? plans.find((plan) => Object.values(plan.stripe!).some((env) => env[key] === value)) : undefined;
+
+  return matches('priceId', ids.priceId) ?? matches('productId', ids.productId) ?? null;
+}
@@ -0,0 +1,718 @@
+import { createHash } from 'crypto';
+import { formatMetadataForPrompt, SiteMetadata } from './metadata';
+import { formatHiringForPrompt, HiringSignals } from './hiring';
+import { formatTechnologiesForPrompt, DetectedTechnology } from './tech-fingerprint';
+import type { PromptOutcomeRows } from './db';
+import { VARIANT_TYPES, EmailVariant } from './llm/schemas';
+import { languageName, LanguageCode } from './language';
+import type { GenerationProfile } from './validation';
+import { formatKnowledgeForPrompt, KnowledgeSnippet } from './knowledge';
+
+/**
+ * Prompt registry
+ * Every prompt has an id and explicit versions so saved rows can record exactly which
+ * prompt produced them. Never edit a registered version in place: add a new one.
+ *
+ * Version selection per call (first match wins):
+ *   PROMPT_EXPERIMENT_<ID>=v1:50,v2:50  split users between versions by weight (sticky per user)
+ *   PROMPT_VERSION_<ID>=v2              pin a version for everyone
+ *   otherwise the latest registered version
+ */
+
+// Extra signals gathered by the scraper alongside the page text
+export interface ProspectContext {
+  metadata?: SiteMetadata;
+  technologies?: DetectedTechnology[];
+  hiring?: HiringSignals;
+  // Language to write angles in, and the one detected on the site (v2 and later)
+  language?: { target: LanguageCode; site: string };
+  // Sender knowledge base items relevant to this prospect (v3 and later)
+  knowledge?: KnowledgeSnippet[];
+}
+
+/**
+ * Insert text before the last occurrence of a marker; later versions extend earlier ones
+ * this way, and the markers sit after any scraped content that could contain them
+ */
+function insertBefore(prompt: string, marker: string, text: string): string {
+  const index = prompt.lastIndexOf(marker);
+  return index === -1 ? prompt : prompt.substring(0, index) + text + prompt.substring(index);
+}
+
+const NO_INVENTED_PROOF = 'never invent customers, numbers or claims that are not listed';
+
+// v1 asks for English only; later versions swap this line for a target-language rule
+const ENGLISH_ONLY_RULE =
+  '- Language rule: All output MUST be in English only. If source content is in another language, translate evidence snippets to English. DO NOT mix languages in a single field.';
+
+export const ANALYZE_PROSPECT_PROMPT = (company: string, content: string, service: string, context: ProspectContext = {}) => `
+You are an expert cold email prospecting specialist.
+Analyze this company content and find 3 VERY SPECIFIC cold email angles.
+Each angle must be based on actual evidence from the content.
+
+COMPANY: ${company}
+STRUCTURED DATA (from the site's JSON-LD, OpenGraph and meta tags):
+${formatMetadataForPrompt(context.metadata) || 'none found'}
+DETECTED TECHNOLOGIES (fingerprinted from scripts, headers, cookies and meta tags; not visible in the page text):
+${formatTechnologiesForPrompt(context.technologies) || 'none detected'}
+OPEN ROLES (from careers pages, job posting markup and the company's job board):
+${formatHiringForPrompt(context.hiring) || 'none found'}
+CONTENT (one section per page, each starting with "### PAGE: <url>"):
+${content}
+SERVICE TO SELL: ${service}
+
+CRITICAL BUSINESS LOGIC
+Before generating angles, DETERMINE the company type:
+Read the content and infer what this company actually provides/does.
+If the company IS a provider of the same service being sold:
+  Example: Prospect = Stripe, Service = "Payment Processing Integration" → MISMATCH
+  Do NOT generate angles about "helping them scale payments" or "optimizing their own tools"
+  If MISMATCH detected, generate angles around:
+    - Partnership/co-development opportunities
+    - Building on top of their platform
+    - White-label extensions
+  Never: selling them their own product
+If no mismatch, generate normal cold email angles.
+
+IMPORTANT: You MUST return ONLY a valid JSON object, nothing else. No markdown, no explanation.
+Start with { and end with }
+
+{
+  "companyName": "string",
+  "angles": [
+    {
+      "type": "recent_achievement|product_launch|team_change|funding|hiring|content_marketing|tech_stack|market_problem|specific_metric|partnership_opportunity|platform_extension",
+      "hook": "specific first line hook under 50 chars",
+      "evidence": "exact quote or specific detail from content",
+      "sourceUrl": "URL of the PAGE section the evidence was taken from",
+      "reasoning": "why this matters",
+      "connection": "how your service helps solve this"
+    }
+  ]
+}
+
+Requirements:
+- Score 1-10, reject if <6
+- Hook must be SPECIFIC, not generic
+- Hook length: MUST be under 50 chars for maximum impact
+- Evidence must be traceable to content or STRUCTURED DATA (founding date, products, article dates are valid evidence)
+- tech_stack angles must use DETECTED TECHNOLOGIES as evidence (name the technology and what detected it) and use its "on <url>" as sourceUrl; prefer confidence 0.8 or higher
+- hiring angles must name a real opening from OPEN ROLES (title, and team/location/date when given) and use the job's URL, or the careers page URL, as sourceUrl; never invent roles
+- Use the Organization name from STRUCTURED DATA as companyName when present
+- sourceUrl must be copied exactly from the "### PAGE:" header the evidence appears under
+- Prefer evidence from About, Careers, Blog, News and Customers pages over generic homepage copy
+- Max 3 angles
+- Sort by specificityScore descending
+${ENGLISH_ONLY_RULE}
+- RETURN ONLY JSON, NO OTHER TEXT
+`;
+
+/**
+ * v1 with the English-only rule replaced: hooks, reasoning and connection in the target
+ * language, evidence quoted verbatim in the site's language so it stays traceable
+ */
+export const ANALYZE_PROSPECT_PROMPT_V2 = (
+  company: string,
+  content: string,
+  service: string,
+  context: ProspectContext = {}
+) => {
+  const target = languageName(context.language?.target || 'en');
+  const site = context.language?.site ? languageName(context.language.site) : 'an unknown language';
+
+  return ANALYZE_PROSPECT_PROMPT(company, content, service, context).replace(
+    ENGLISH_ONLY_RULE,
+    `- Language rule: The site is written in ${site}. Write hook, reasoning and connection in ${target}. Copy evidence exactly as it appears in the content, in its original language; NEVER translate evidence. Keep companyName as the company writes it. DO NOT mix languages in a single field.`
+  );
+};
+
+/**
+ * v2 plus the sender's knowledge base, so connections cite real proof
+ */
+export const ANALYZE_PROSPECT_PROMPT_V3 = (
+  company: string,
+  content: string,
+  service: string,
+  context: ProspectContext = {}
+) => {
+  const withKnowledge = insertBefore(
+    ANALYZE_PROSPECT_PROMPT_V2(company, content, service, context),
+    'SERVICE TO SELL:',
+    `SENDER KNOWLEDGE (the seller's own offerings, customer stories, metrics and differentiators):
+${formatKnowledgeForPrompt(context.knowledge) || 'none provided'}
+`
+  );
+  return insertBefore(
+    withKnowledge,
+    '- Max 3 angles',
+    `- connection should cite a specific SENDER KNOWLEDGE item (customer story, metric or differentiator) when one fits; ${NO_INVENTED_PROOF}
+`
+  );
+};
+
+export const GENERATE_EMAILS_PROMPT = (company: string, hook: string, evidence: string, service: string) => `
+Generate 3 cold email variants based on this specific angle.
+
+COMPANY: ${company}
+HOOK: ${hook}
+EVIDENCE: ${evidence}
+SERVICE: ${service}
+
+TONE GUIDELINES (CRITICAL)
+Write emails like a busy founder who did real research, NOT like a corporate marketer.
+
+Forbidden phrases (delete them from all outputs):
+- "I hope this email finds you well"
+- "unlock value"
+- "leverage"
+- "synergies"
+- "world-class"
+- "cutting-edge"
+- "We help industry leaders like..."
+- "optimize" (use "improve" or be specific instead)
+- "enhance your existing"
+- "innovative solutions"
+
+Required style:
+- Short sentences. Under 15 words per sentence.
+- Plain English. Use words a 12-year-old knows.
+- Conversational tone, like you're texting a friend.
+- One clear idea per email.
+- Use specific company details, not generic praise.
+
+IMPORTANT: You MUST return ONLY a valid JSON object, nothing else. No markdown, no explanation.
+Start with { and end with }
+
+{
+  "variants": [
+    {
+      "type": "direct|question|value-first",
+      "subject": "direct hook, under 50 chars, low friction",
+      "body": "under 120 words, specific hook first line",
+      "reasoning": "why this approach works"
+    }
+  ],
+  "followUps": [
+    {
+      "day": 3,
+      "subject": "soft bump, specific detail, under 40 chars",
+      "body": "soft bump, under 80 words, no pressure"
+    },
+    {
+      "day": 7,
+      "subject": "final follow up, direct idea, under 40 chars",
+      "body": "exit option included, under 80 words, clear close"
+    }
+  ]
+}
+
+Requirements:
+- First line = the exact hook from the angle
+- Subject line max 50 chars, no clickbait
+- Body max 120 words total
+- Must read like a human wrote it in 2 minutes, not an AI in an hour
+- Never over-praise the prospect more than once
+- If mentioning their strengths, immediately pivot to what they might be missing
+- No spam triggers (free, discount, urgent)
+- You/I ratio > 3:1
+- Subject line style:
+  - MUST be under 50 chars max
+  - Use specific detail from their company/content, NOT generic praise
+  - Examples of GOOD: "One thing about your 'How do you train' section", "Quick thought on your Stripe Connect"
+  - Examples of BAD: "Let's talk about your business", "Interested in a quick chat?"
+  - Lead with curiosity or specific observation, not your service
+- Follow-up style:
+  - Day 3: Soft bump with specific detail (80 words max), no pressure
+  - Day 7: Direct close ("Simple idea: [concrete benefit]" or clear exit: "If this isn't a priority, just reply STOP")
+  - No guilt-tripping or manipulation
+- RETURN ONLY JSON, NO OTHER TEXT
+`;
+
+/**
+ * v1 plus an output language; the style rules apply to the target language
+ */
+export const GENERATE_EMAILS_PROMPT_V2 = (
+  company: string,
+  hook: string,
+  evidence: string,
+  service: string,
+  language: LanguageCode = 'en'
+) =>
+  GENERATE_EMAILS_PROMPT(company, hook, evidence, service).replace(
+    '- RETURN ONLY JSON, NO OTHER TEXT',
+    `- Language: write every subject and body in ${languageName(language)}. "Plain English" above means plain, everyday ${languageName(language)}. Avoid the forbidden phrases and spam triggers in translation too. If you quote the evidence, keep it in its original language.
+- RETURN ONLY JSON, NO OTHER TEXT`
+  );
+
+const TONE_GUIDELINES: Record<GenerationProfile['tone'], string> = {
+  casual: `Write like a busy founder who did real research, NOT like a corporate marketer.
+- Conversational tone, like you're texting a friend.`,
+  formal: `Write like a senior professional writing to a peer: polite, precise and respectful of their time.
+- No slang, no exclamation marks, no emoji. Still short and human, never stiff corporate copy.`,
+  technical: `Write like an engineer writing to an engineer: concrete about systems, numbers and trade-offs.
+- Use technical terms only when the prospect's own content uses them. No buzzwords.`,
+};
+
+const CTA_GUIDELINES: Record<NonNullable<GenerationProfile['ctaStyle']>, string> = {
+  meeting: 'Close every variant by asking for a short call with a concrete length (e.g. "15 minutes next week?")',
+  resource: 'Close every variant by offering something useful to read (a short guide, teardown or example). No meeting ask',
+  question: 'Close every variant with one easy question about their situation they can answer in a line. No meeting ask',
+};
+
+/**
+ * Generation profile: sender persona, tone, length, call to action and number of variants
+ * Without a profile the output matches v2 (casual, 120 words, three variants)
+ */
+export const GENERATE_EMAILS_PROMPT_V3 = (
+  company: string,
+  hook: string,
+  evidence: string,
+  service: string,
+  language: LanguageCode = 'en',
+  profile: Partial<GenerationProfile> = {}
+) => {
+  const { tone = 'casual', maxWords = 120, variantCount = 3, ctaStyle, senderRole, senderCompany, valueProp } = profile;
+  const types = VARIANT_TYPES.slice(0, variantCount);
+  const followUpWords = Math.min(80, maxWords);
+  const sender = [senderRole, senderCompany].filter(Boolean).join(' at ');
+  const target = languageName(language);
+
+  return `
+Generate ${variantCount} cold email variants based on this specific angle.
+
+COMPANY: ${company}
+HOOK: ${hook}
+EVIDENCE: ${evidence}
+SERVICE: ${valueProp || service || 'not specified'}
+SENDER: ${sender || 'not specified'}
+VARIANTS: ${variantCount}
+
+TONE GUIDELINES (CRITICAL)
+${TONE_GUIDELINES[tone]}
+
+Forbidden phrases (delete them from all outputs):
+- "I hope this email finds you well"
+- "unlock value"
+- "leverage"
+- "synergies"
+- "world-class"
+- "cutting-edge"
+- "We help industry leaders like..."
+- "optimize" (use "improve" or be specific instead)
+- "enhance your existing"
+- "innovative solutions"
+
+Required style:
+- Short sentences. Under 15 words per sentence.
+- Plain, everyday ${target}. Use words a 12-year-old knows.
+- One clear idea per email.
+- Use specific company details, not generic praise.
+${sender ? `- Write as the SENDER; sign off with their role, never a made-up name.
+` : ''}
+IMPORTANT: You MUST return ONLY a valid JSON object, nothing else. No markdown, no explanation.
+Start with { and end with }
+
+{
+  "variants": [
+    {
+      "type": "${types.join('|')}",
+      "subject": "direct hook, under 50 chars, low friction",
+      "body": "under ${maxWords} words, specific hook first line",
+      "reasoning": "why this approach works"
+    }
+  ],
+  "followUps": [
+    {
+      "day": 3,
+      "subject": "soft bump, specific detail, under 40 chars",
+      "body": "soft bump, under ${followUpWords} words, no pressure"
+    },
+    {
+      "day": 7,
+      "subject": "final follow up, direct idea, under 40 chars",
+      "body": "exit option included, under ${followUpWords} words, clear close"
+    }
+  ]
+}
+
+Requirements:
+- Exactly ${variantCount} variant${variantCount === 1 ? '' : 's'}, one of each type: ${types.join(', ')}
+- First line = the exact hook from the angle
+- Subject line max 50 chars, no clickbait
+- Body max ${maxWords} words total
+- Must read like a human wrote it in 2 minutes, not an AI in an hour
+- Never over-praise the prospect more than once
+- If mentioning their strengths, immediately pivot to what they might be missing
+- No spam triggers (free, discount, urgent)
+- You/I ratio > 3:1
+- ${ctaStyle ? CTA_GUIDELINES[ctaStyle] : 'Vary the close between variants; keep every ask small'}
+- Subject line style:
+  - MUST be under 50 chars max
+  - Use specific detail from their company/content, NOT generic praise
+  - Lead with curiosity or specific observation, not your service
+- Follow-up style:
+  - Day 3: Soft bump with specific detail (${followUpWords} words max), no pressure
+  - Day 7: Direct close or clear exit: "If this isn't a priority, just reply STOP"
+  - No guilt-tripping or manipulation
+- Language: write every subject and body in ${target}. Avoid the forbidden phrases and spam triggers in translation too. If you quote the evidence, keep it in its original language.
+- RETURN ONLY JSON, NO OTHER TEXT
+`;
+};
+
+/**
+ * v3 plus the sender's knowledge base, so emails back the pitch with real proof
+ */
+export const GENERATE_EMAILS_PROMPT_V4 = (
+  company: string,
+  hook: string,
+  evidence: string,
+  service: string,
+  language: LanguageCode = 'en',
+  profile: Partial<GenerationProfile> = {},
+  knowledge: KnowledgeSnippet[] = []
+) => {
+  const withKnowledge = insertBefore(
+    GENERATE_EMAILS_PROMPT_V3(company, hook, evidence, service, language, profile),
+    'TONE GUIDELINES (CRITICAL)',
+    `SENDER KNOWLEDGE (the sender's own offerings, customer stories, metrics and differentiators):
+${formatKnowledgeForPrompt(knowledge) || 'none provided'}
+
+`
+  );
+  return insertBefore(
+    withKnowledge,
+    '- RETURN ONLY JSON, NO OTHER TEXT',
+    `- Back up the pitch with at most one SENDER KNOWLEDGE item per email (a customer story or metric works best); ${NO_INVENTED_PROOF}
+`
+  );
+};
+
+export const HANDLE_RESPONSE_PROMPT = (originalEmail: string, prospectResponse: string, angleUsed: string) => `
+Analyze this cold email response and generate perfect replies.
+
+ORIGINAL_EMAIL: ${originalEmail}
+PROSPECT_RESPONSE: ${prospectResponse}
+ANGLE_USED: ${angleUsed}
+
+IMPORTANT: You MUST return ONLY a valid JSON object, nothing else. No markdown, no explanation.
+Start with { and end with }
+
+{
+  "analysis": {
+    "sentiment": "positive|neutral|negative|ghosting_prevention",
+    "objectionType": "price_concern|timing_issue|no_need|trust_barrier|brush_off|info_request|meeting_request|none",
+    "urgency": "high|medium|low",
+    "buyingSignals": ["signal1", "signal2"],
+    "redFlags": ["flag1", "flag2"],
+    "recommendedAction": "what to do next"
+  },
+  "replies": [
+    {
+      "variant": "direct|soft",
+      "subject": "subject under 50 chars",
+      "body": "under 100 words, framework: acknowledge + empathize + address + micro-commit + leave door open"
+    }
+  ]
+}
+
+Requirements:
+- Acknowledge their concern specifically
+- Offer micro-commitment (not big ask)
+- Leave door open gracefully
+- No pushiness or desperation
+- Match their tone
+- RETURN ONLY JSON, NO OTHER TEXT
+`;
+
+export const REWRITE_EMAIL_PROMPT = (
+  company: string,
+  hook: string,
+  evidence: string,
+  service: string,
+  email: EmailVariant,
+  problems: string
+) => `
+Rewrite this cold email so it follows every rule below. Keep the approach and the specific details.
+
+COMPANY: ${company}
+HOOK: ${hook}
+EVIDENCE: ${evidence}
+SERVICE: ${service}
+EMAIL TYPE: ${email.type}
+SUBJECT: ${email.subject}
+BODY:
+${email.body}
+
+PROBLEMS FOUND:
+${problems}
+
+Rules:
+- First line = the exact hook
+- Subject under 50 chars, specific to the company, no clickbait
+- Body under 120 words, sentences under 15 words, plain English
+- Never use: "I hope this email finds you well", "unlock value", "leverage", "synergies", "world-class", "cutting-edge", "We help industry leaders like...", "optimize", "enhance your existing", "innovative solutions"
+- No spam triggers (free, discount, urgent)
+- At most one link
+- Talk about them more than yourself: You/I ratio > 3:1
+
+IMPORTANT: You MUST return ONLY a valid JSON object, nothing else. No markdown, no explanation.
+
+{
+  "type": "${email.type}",
+  "subject": "rewritten subject",
+  "body": "rewritten body",
+  "reasoning": "why this approach works"
+}
+`;
+
+/**
+ * v1 plus an output language, so rewrites don't drift back to English
+ */
+export const REWRITE_EMAIL_PROMPT_V2 = (
+  company: string,
+  hook: string,
+  evidence: string,
+  service: string,
+  email: EmailVariant,
+  problems: string,
+  language: LanguageCode = 'en'
+) =>
+  REWRITE_EMAIL_PROMPT(company, hook, evidence, service, email, problems).replace(
+    '- Talk about them more than yourself: You/I ratio > 3:1',
+    `- Talk about them more than yourself: You/I ratio > 3:1
+- Write the subject and body in ${languageName(language)}, plain and everyday; avoid the phrases above in translation too`
+  );
+
+export type PromptId = 'analyze_prospect' | 'generate_emails' | 'rewrite_email' | 'handle_response';
+
+// Builder arguments per prompt; every version takes the latest version's inputs (older ones ignore extras)
+export interface PromptArgs {
+  analyze_prospect: Parameters<typeof ANALYZE_PROSPECT_PROMPT_V3>;
+  generate_emails: Parameters<typeof GENERATE_EMAILS_PROMPT_V4>;
+  rewrite_email: Parameters<typeof REWRITE_EMAIL_PROMPT_V2>;
+  handle_response: Parameters<typeof HANDLE_RESPONSE_PROMPT>;
+}
+
+export interface PromptVersion<K extends PromptId = PromptId> {
+  id: K;
+  version: string;
+  description: string;
+  build: (...args: PromptArgs[K]) => string;
+}
+
+// Oldest first; the last entry is the default
+const REGISTRY: { [K in PromptId]: PromptVersion<K>[] } = {
+  analyze_prospect: [
+    {
+      id: 'analyze_prospect',
+      version: 'v1',
+      description: 'Three evidence-backed angles from page text, structured data, technologies and open roles',
+      build: ANALYZE_PROSPECT_PROMPT,
+    },
+    {
+      id: 'analyze_prospect',
+      version: 'v2',
+      description: 'v1 with angles in the target language and evidence kept in the site language',
+      build: ANALYZE_PROSPECT_PROMPT_V2,
+    },
+    {
+      id: 'analyze_prospect',
+      version: 'v3',
+      description: 'v2 with relevant sender knowledge base items to cite as proof',
+      build: ANALYZE_PROSPECT_PROMPT_V3,
+    },
+  ],
+  generate_emails: [
+    {
+      id: 'generate_emails',
+      version: 'v1',
+      description: 'Three variants (direct, question, value-first) plus day 3 and day 7 follow-ups',
+      build: GENERATE_EMAILS_PROMPT,
+    },
+    {
+      id: 'generate_emails',
+      version: 'v2',
+      description: 'v1 written in the target language',
+      build: GENERATE_EMAILS_PROMPT_V2,
+    },
+    {
+      id: 'generate_emails',
+      version: 'v3',
+      description: 'v2 shaped by a generation profile: sender, tone, length, CTA style and variant count',
+      build: GENERATE_EMAILS_PROMPT_V3,
+    },
+    {
+      id: 'generate_emails',
+      version: 'v4',
+      description: 'v3 with relevant sender knowledge base items to cite as proof',
+      build: GENERATE_EMAILS_PROMPT_V4,
+    },
+  ],
+  rewrite_email: [
+    {
+      id: 'rewrite_email',
+      version: 'v1',
+      description: 'Fix a variant that failed the email linter, given the violations',
+      build: REWRITE_EMAIL_PROMPT,
+    },
+    {
+      id: 'rewrite_email',
+      version: 'v2',
+      description: 'v1 written in the target language',
+      build: REWRITE_EMAIL_PROMPT_V2,
+    },
+  ],
+  handle_response: [
+    {
+      id: 'handle_response',
+      version: 'v1',
+      description: 'Objection analysis with direct and soft replies',
+      build: HANDLE_RESPONSE_PROMPT,
+    },
+  ],
+};
+
+export interface PromptSelection<K extends PromptId = PromptId> {
+  prompt: PromptVersion<K>;
+  // "<id>@<version>", the value stored on saved rows
+  key: string;
+  // Set when the version was picked by a traffic split
+  experiment: string | null;
+}
+
+export function promptKey(id: PromptId, version: string): string {
+  return `${id}@${version}`;
+}
+
+export function listPrompts(): PromptVersion[] {
+  return Object.values(REGISTRY).flat() as PromptVersion[];
+}
+
+function findVersion<K extends PromptId>(id: K, version: string): PromptVersion<K> | undefined {
+  return REGISTRY[id].find((prompt) => prompt.version === version);
+}
+
+/**
+ * Parse "v1:50,v2:50" into weighted versions, skipping entries that aren't registered
+ */
+function parseExperiment<K extends PromptId>(id: K, raw: string): { prompt: PromptVersion<K>; weight: number }[] {
+  const arms: { prompt: PromptVersion<K>; weight: number }[] = [];
+  for (const entry of raw.split(',')) {
+    const [version, weightRaw] = entry.split(':').map((part) => part.trim());
+    const prompt = version ? findVersion(id, version) : undefined;
+    const weight = weightRaw === undefined ? 1 : Number(weightRaw);
+    if (!prompt || !Number.isFinite(weight) || weight <= 0) {
+      console.warn(`Ignoring invalid experiment arm "${entry}" for prompt ${id}`);
+      continue;
+    }
+    arms.push({ prompt, weight });
+  }
+  return arms;
+}
+
+// Stable bucket in [0, 1) so a user always sees the same arm of an experiment
+function bucketFor(seed: string): number {
+  return parseInt(createHash('sha256').update(seed).digest('hex').substring(0, 8), 16) / 0x100000000;
+}
+
+/**
+ * Pick the prompt version to use for a call
+ * Without a userId (e.g. scripts) experiments are skipped and the pinned/default version is used
+ */
+export function selectPrompt<K extends PromptId>(id: K, userId?: number): PromptSelection<K> {
+  const envKey = id.toUpperCase();
+  const experiment = process.env[`PROMPT_EXPERIMENT_${envKey}`];
+
+  if (experiment && userId !== undefined) {
+    const arms = parseExperiment(id, experiment);
+    const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+    if (arms.length > 0) {
+      let point = bucketFor(`${id}:${userId}`) * total;
+      const arm = arms.find((candidate) => (point -= candidate.weight) < 0) || arms[arms.length - 1];
+      return { prompt: arm.prompt, key: promptKey(id, arm.prompt.version), experiment: id };
+    }
+  }
+
+  const pinned = process.env[`PROMPT_VERSION_${envKey}`];
+  if (pinned) {
+    const prompt = findVersion(id, pinned);
+    if (prompt) return { prompt, key: promptKey(id, prompt.version), experiment: null };
+    console.warn(`PROMPT_VERSION_${envKey}=${pinned} is not registered, using the latest version`);
+  }
+
+  const versions = REGISTRY[id];
+  const latest = versions[versions.length - 1];
+  return { prompt: latest, key: promptKey(id, latest.version), experiment: null };
+}
+
+export interface PromptVersionOutcome {
+  promptVersion: string;
+  // Rows produced with this version, per model
+  models: Record<string, number>;
+  outputs: number;
+  replies: number;
+  sentiments: Record<string, number>;
+  // Share of linked replies classified as positive
+  positiveRate: number | null;
+}
+
+/**
+ * Compare reply outcomes per prompt version
+ * Replies are attributed through user_responses.research_id to both the analysis
+ * version and the email version of the research they answer
+ */
+export function summarizePromptOutcomes(rows: PromptOutcomeRows): {
+  analysis: PromptVersionOutcome[];
+  emails: PromptVersionOutcome[];
+} {
+  const repliesByResearch = new Map<number, PromptOutcomeRows['responses']>();
+  for (const response of rows.responses) {
+    if (response.research_id === null) continue;
+    const list = repliesByResearch.get(response.research_id) || [];
+    list.push(response);
+    repliesByResearch.set(response.research_id, list);
+  }
+
+  const summarize = (
+    versionOf: (row: PromptOutcomeRows['researches'][number]) => string | null,
+    modelOf: (row: PromptOutcomeRows['researches'][number]) => string | null
+  ): PromptVersionOutcome[] => {
+    const groups = new Map<string, PromptVersionOutcome>();
+
+    for (const research of rows.researches) {
+      const version = versionOf(research);
+      if (!version) continue;
+
+      const group = groups.get(version) || {
+        promptVersion: version,
+        models: {},
+        outputs: 0,
+        replies: 0,
+        sentiments: {},
+        positiveRate: null,
+      };
+      const model = modelOf(research) || 'unknown';
+      group.models[model] = (group.models[model] || 0) + 1;
+      group.outputs++;
+
+      for (const reply of repliesByResearch.get(research.id) || []) {
+        const sentiment = reply.sentiment || 'unknown';
+        group.sentiments[sentiment] = (group.sentiments[sentiment] || 0) + 1;
+        group.replies++;
+      }
+      groups.set(version, group);
+    }
+
+    return Array.from(groups.values())
+      .map((group) => ({
+        ...group,
+        positiveRate: group.replies > 0 ? (group.sentiments.positive || 0) / group.replies : null,
+      }))
+      .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+  };
+
+  return {
+    analysis: summarize((row) => row.prompt_version, (row) => row.model),
+    emails: summarize((row) => row.email_prompt_version, (row) => row.email_model),
+  };
+}
@@ -0,0 +1,484 @@
+import { extractDomain, ScrapeProgress } from './scraper';
+import { scrapeWithCache, CachedScrape } from './scrape-cache';
+import { analyzeProspect, generateEmails, rewriteEmailVariant } from './gemini';
+import { emptyHiringSignals, HiringSignals } from './hiring';
+import {
+  getDefaultGenerationProfile,
+  getGenerationProfile,
+  getKnowledgeItems,
+  getLatestUserResearchId,
+  claimIncludedEmails,
+  releaseIncludedEmails,
+  saveUserResearch,
+  updateResearchEmails,
+} from './db';
+import { AppError, logAction, withRetry } from './error-handler';
+import { commitCredits, releaseCredits, withReservedCredits, CreditReservation } from './credits';
+import type { AnalyzeInput, GenerateEmailsInput, GenerationProfile } from './validation';
+import type { SiteMetadata } from './metadata';
+import type { DetectedTechnology } from './tech-fingerprint';
+import { detectLanguage, resolveTargetLanguage, DetectedLanguage, LanguageCode } from './language';
+import { rankKnowledge, KnowledgeSnippet } from './knowledge';
+import { buildEvidenceSources, verifyAngles, GroundedAngle } from './evidence';
+import { describeViolations, lintEmail, lintGeneratedEmails, EmailLintSummary } from './email-linter';
+import type { PromptRun } from './gemini';
+import type { Angle, EmailVariant, FollowUp, GeneratedEmails, ProspectAnalysis } from './llm/schemas';
+
+/**
+ * Research and email generation pipelines shared by the JSON and streaming endpoints
+ * Callers authenticate, rate limit and validate input; the hooks report progress
+ */
+
+export type ResearchStage = 'scraping' | 'analyzing' | 'generating' | 'checking' | 'saving';
+
+export interface ResearchHooks {
+  onStage?: (stage: ResearchStage, message: string) => void;
+  // Cancelled when the client disconnects; the reserved credit is then released
+  signal?: AbortSignal;
+}
+
+export interface AnalysisHooks extends ResearchHooks {
+  onPage?: (progress: ScrapeProgress) => void;
+  onCache?: (cache: NonNullable<CachedScrape['cache']>) => void;
+  onAngle?: (angle: Angle, index: number) => void;
+}
+
+export interface EmailHooks extends ResearchHooks {
+  onVariant?: (variant: EmailVariant, index: number) => void;
+  onFollowUp?: (followUp: FollowUp, index: number) => void;
+}
+
+export interface ProspectResearch {
+  company: string;
+  // Each with where its evidence was found on the site (see lib/evidence.ts)
+  angles: GroundedAngle[];
+  metadata: SiteMetadata;
+  technologies: DetectedTechnology[];
+  hiring: HiringSignals;
+  pages: { url: string; title: string }[];
+  cache: CachedScrape['cache'];
+  // Language the angles are written in (pass it on to email generation) and the site's own
+  language: LanguageCode;
+  siteLanguage: DetectedLanguage;
+  // Knowledge base items the analysis was given as proof
+  knowledge: Pick<KnowledgeSnippet, 'id' | 'kind' | 'title'>[];
+}
+
+// Generated emails with their linter scores
+export type LintedEmails = GeneratedEmails & { lint: EmailLintSummary };
+
+// Rewrites per variant that fails a hard linter rule
+const MAX_VARIANT_REWRITES = 2;
+
+// Prospect text matched against the knowledge base; the opening pages say what they do
+const KNOWLEDGE_QUERY_CHARS = 5000;
+
+// Angles whose evidence isn't on the site: 'drop' them (default) or 'flag' and keep them
+const UNGROUNDED_ANGLES = process.env.EVIDENCE_GROUNDING === 'flag' ? 'flag' : 'drop';
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AppError(499, 'Request cancelled', 'CANCELLED');
+  }
+}
+
+/**
+ * Scrape, analyze and save a prospect; a forced re-crawl is priced as a deep analysis
+ * The credits are reserved before scraping and only kept once the research is saved
+ */
+export async function runProspectAnalysis(
+  userId: number,
+  input: AnalyzeInput,
+  hooks: AnalysisHooks = {}
+): Promise<ProspectResearch> {
+  const action = input.forceRefresh ? 'deep_analyze' : 'analyze';
+  return withReservedCredits(userId, action, (reservation) => analyzeAndSave(userId, input, hooks, reservation));
+}
+
+async function analyzeAndSave(
+  userId: number,
+  input: AnalyzeInput,
+  hooks: AnalysisHooks,
+  reservation: CreditReservation
+): Promise<ProspectResearch> {
+  const { url, service, forceRefresh, language, knowledgeIds } = input;
+  const stage = hooks.onStage || (() => {});
+
+  // Crawl website (or serve from the shared scrape cache) with retry
+  stage('scraping', `Reading ${url}`);
+  let scrape: CachedScrape['result'] = null;
+  let cache: CachedScrape['cache'] = null;
+  try {
+    ({ result: scrape, cache } = await withRetry(
+      () => scrapeWithCache(url, { forceRefresh, onProgress: hooks.onPage }),
+      2,
+      500
+    ));
+  } catch (error) {
+    logAction('SCRAPE_FAILED', userId, { url, error: String(error) });
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      400,
+      'Could not scrape website. Please verify the URL is correct and the site is publicly accessible.',
+      'SCRAPE_FAILED'
+    );
+  }
+
+  if (!scrape || scrape.content.trim().length === 0) {
+    throw new AppError(
+      400,
+      'No content found on the website. Please try another URL.',
+      'NO_CONTENT'
+    );
+  }
+  if (cache?.hit) hooks.onCache?.(cache);
+  throwIfCancelled(hooks.signal);
+
+  const { content, pages, metadata } = scrape;
+  // Entries cached before fingerprinting/hiring extraction have neither field
+  const technologies = scrape.technologies ?? [];
+  const hiring = scrape.hiring ?? emptyHiringSignals();
+
+  // Extract domain with validation
+  let domain: string | null = null;
+  try {
+    domain = await extractDomain(url);
+  } catch (error) {
+    logAction('DOMAIN_EXTRACT_FAILED', userId, { url });
+    throw new AppError(400, 'Could not extract domain from URL', 'INVALID_URL');
+  }
+
+  if (!domain) {
+    throw new AppError(400, 'Invalid URL format', 'INVALID_URL');
+  }
+
+  // Prefer the organization name the site declares about itself over the bare domain
+  const companyName = metadata.organizationName || domain;
+
+  const siteLanguage = detectLanguage(content, metadata.language);
+  const targetLanguage = resolveTargetLanguage(language, siteLanguage);
+  const knowledge = await loadKnowledge(
+    userId,
+    knowledgeIds,
+    [service, metadata.description, content.substring(0, KNOWLEDGE_QUERY_CHARS)].filter(Boolean).join('\n')
+  );
+
+  // Analyze with retry (3 attempts with 2 second delay); each attempt restarts the angle stream
+  let run: PromptRun<ProspectAnalysis>;
+  try {
+    run = await withRetry(
+      () => {
+        stage('analyzing', `Analyzing ${pages.length} page${pages.length === 1 ? '' : 's'} from ${companyName}`);
+        return analyzeProspect(
+          companyName,
+          content,
+          service,
+          {
+            metadata,
+            technologies,
+            hiring,
+            language: { target: targetLanguage, site: siteLanguage.code },
+            knowledge,
+          },
+          { userId, stream: hooks.onAngle ? { onAngle: hooks.onAngle, signal: hooks.signal } : undefined }
+        );
+      },
+      3,
+      2000
+    );
+  } catch (error) {
+    throwIfCancelled(hooks.signal);
+    logAction('ANALYSIS_FAILED', userId, { domain, error: String(error) });
+    throw new AppError(
+      503,
+      'AI analysis service temporarily unavailable. Please try again later.',
+      'AI_SERVICE_ERROR'
+    );
+  }
+
+  const analysis = run.data;
+  if (!analysis || !analysis.angles || analysis.angles.length === 0) {
+    throw new AppError(
+      500,
+      'Analysis returned no valid angles. Please try another URL.',
+      'EMPTY_ANALYSIS'
+    );
+  }
+
+  // Check each angle's evidence against what was scraped, before the credit is kept
+  const verified = verifyAngles(analysis.angles, buildEvidenceSources({ pages, metadata, technologies, hiring }));
+  const angles =
+    UNGROUNDED_ANGLES === 'drop' ? verified.filter((angle) => angle.grounding.status !== 'ungrounded') : verified;
+  const grounding = {
+    grounded: verified.filter((angle) => angle.grounding.status === 'grounded').length,
+    partial: verified.filter((angle) => angle.grounding.status === 'partial').length,
+    ungrounded: verified.filter((angle) => angle.grounding.status === 'ungrounded').length,
+  };
+  if (angles.length === 0) {
+    logAction('ANALYSIS_UNGROUNDED', userId, { domain, ...grounding });
+    throw new AppError(
+      502,
+      'None of the angles could be traced back to the website. Please try again.',
+      'UNGROUNDED_ANALYSIS'
+    );
+  }
+  throwIfCancelled(hooks.signal);
+
+  // Save research history, then keep the credit for it
+  stage('saving', 'Saving research');
+  try {
+    const researchId = await saveUserResearch(userId, url, service, angles, {
+      technologies,
+      promptVersion: run.promptVersion,
+      model: run.model,
+      language: targetLanguage,
+      siteLanguage: siteLanguage.code,
+      knowledgeIds: knowledge.map((snippet) => snippet.id),
+    });
+    await commitCredits(reservation, 'research', researchId);
+  } catch (error) {
+    // Don't fail - the analysis is still returned, but an unsaved analysis isn't charged
+    logAction('HISTORY_SAVE_FAILED', userId, { url, error: String(error) });
+    await releaseCredits(reservation, 'save_failed');
+  }
+
+  logAction('ANALYSIS_SUCCESS', userId, {
+    domain,
+    angles: angles.length,
+    grounding,
+    pagesCrawled: pages.length,
+    technologies: technologies.length,
+    openRoles: hiring.totalOpenings,
+    cacheHit: cache?.hit ?? false,
+    language: targetLanguage,
+    siteLanguage: siteLanguage.code,
+    knowledgeItems: knowledge.length,
+    promptVersion: run.promptVersion,
+    model: run.model,
+  });
+
+  // Normalize response: use 'company' instead of 'companyName' for consistency with frontend
+  return {
+    company: analysis.companyName || companyName,
+    angles,
+    metadata,
+    technologies,
+    hiring,
+    pages: pages.map((page) => ({ url: page.url, title: page.title })),
+    cache,
+    language: targetLanguage,
+    siteLanguage,
+    knowledge: knowledge.map(({ id, kind, title }) => ({ id, kind, title })),
+  };
+}
+
+/**
+ * Write emails for an angle. The first set for a site the user has analyzed is included in
+ * the analysis; regenerations, and emails for any other URL, reserve the generate_emails cost
+ * and keep it once they're written
+ */
+export async function runEmailGeneration(
+  userId: number,
+  input: GenerateEmailsInput,
+  hooks: EmailHooks = {}
+): Promise<LintedEmails> {
+  const researchId = await withRetry(() => getLatestUserResearchId(userId, input.url), 2);
+  if (researchId !== null && (await withRetry(() => claimIncludedEmails(userId, researchId), 2))) {
+    try {
+      return await generateAndSave(userId, input, hooks);
+    } catch (error) {
+      // Nothing was delivered, so the included set is still owed
+      await withRetry(() => releaseIncludedEmails(userId, researchId), 2).catch((releaseError) =>
+        logAction('INCLUDED_EMAILS_RELEASE_FAILED', userId, { researchId, error: String(releaseError) })
+      );
+      throw error;
+    }
+  }
+
+  return withReservedCredits(userId, 'generate_emails', async (reservation) => {
+    const emails = await generateAndSave(userId, input, hooks);
+    await commitCredits(reservation, researchId !== null ? 'research' : 'emails', researchId ?? input.url);
+    return emails;
+  });
+}
+
+async function generateAndSave(userId: number, input: GenerateEmailsInput, hooks: EmailHooks): Promise<LintedEmails> {
+  const { url, angle, language } = input;
+  const stage = hooks.onStage || (() => {});
+  const streaming = hooks.onVariant || hooks.onFollowUp;
+  const profile = await resolveGenerationProfile(userId, input);
+  const knowledge = await loadKnowledge(
+    userId,
+    input.knowledgeIds,
+    [angle.hook, angle.evidence, angle.reasoning, angle.connection].filter(Boolean).join('\n')
+  );
+
+  // Generate emails with retry
+  let run: PromptRun<GeneratedEmails>;
+  try {
+    run = await withRetry(
+      () => {
+        stage('generating', 'Writing email variants');
+        return generateEmails(
+          url,
+          angle.hook,
+          angle.evidence,
+          '',
+          language,
+          profile,
+          knowledge,
+          {
+            userId,
+            stream: streaming
+              ? {
+                  onVariant: hooks.onVariant || (() => {}),
+                  onFollowUp: hooks.onFollowUp || (() => {}),
+                  signal: hooks.signal,
+                }
+              : undefined,
+          }
+        );
+      },
+      2,
+      1000
+    );
+  } catch (error) {
+    throwIfCancelled(hooks.signal);
+    logAction('EMAIL_GENERATION_FAILED', userId, { error: String(error) });
+    throw new AppError(
+      503,
+      'Email generation service temporarily unavailable. Please try again later.',
+      'EMAIL_GEN_ERROR'
+    );
+  }
+
+  if (!run.data) {
+    throw new AppError(
+      500,
+      'Failed to generate emails. Please try again.',
+      'EMPTY_EMAIL_GENERATION'
+    );
+  }
+  throwIfCancelled(hooks.signal);
+
+  // Lint, rewriting variants that break a hard rule
+  stage('checking', 'Checking emails against the style rules');
+  // Models occasionally write more variants than the profile asks for
+  const generated = { ...run.data, variants: run.data.variants.slice(0, profile.variantCount ?? undefined) };
+  const emails = await enforceEmailRules(userId, url, angle, language, generated, hooks.signal);
+  throwIfCancelled(hooks.signal);
+
+  // Save generated emails to database - non-blocking
+  stage('saving', 'Saving emails');
+  try {
+    await withRetry(() => updateResearchEmails(userId, url, emails, run), 1);
+  } catch (dbError) {
+    logAction('EMAIL_SAVE_FAILED', userId, { url, error: String(dbError) });
+    // Continue - generation was successful, saving is secondary
+  }
+
+  logAction('EMAIL_GENERATION_SUCCESS', userId, {
+    url,
+    language,
+    profileId: input.profileId,
+    knowledgeItems: knowledge.length,
+    promptVersion: run.promptVersion,
+    model: run.model,
+    rewrites: emails.lint.rewrites,
+    failingVariants: emails.lint.variants.filter((report) => !report.passed).length,
+  });
+
+  return emails;
+}
+
+/**
+ * Knowledge base items most relevant to the query, optionally limited to the given ids
+ * The knowledge base is optional context: a failed lookup means no proof, not a failed request
+ */
+async function loadKnowledge(userId: number, ids: number[] | undefined, query: string): Promise<KnowledgeSnippet[]> {
+  if (ids && ids.length === 0) return [];
+
+  try {
+    const items = await withRetry(() => getKnowledgeItems(userId, ids), 2);
+    return rankKnowledge(items, query);
+  } catch (error) {
+    logAction('KNOWLEDGE_LOAD_FAILED', userId, { error: String(error) });
+    return [];
+  }
+}
+
+/**
+ * Profile for a generation: inline, then the saved profile asked for, then the user's default
+ * A failed default lookup falls back to no profile rather than failing the generation
+ */
+async function resolveGenerationProfile(
+  userId: number,
+  { profile, profileId }: Pick<GenerateEmailsInput, 'profile' | 'profileId'>
+): Promise<Partial<GenerationProfile>> {
+  if (profile) return profile;
+
+  if (profileId !== undefined) {
+    const saved = await withRetry(() => getGenerationProfile(userId, profileId), 2);
+    if (!saved) {
+      throw new AppError(404, 'Generation profile not found', 'NOT_FOUND');
+    }
+    return saved.profile;
+  }
+
+  try {
+    const saved = await getDefaultGenerationProfile(userId);
+    return saved?.profile ?? {};
+  } catch (error) {
+    logAction('DEFAULT_PROFILE_LOOKUP_FAILED', userId, { error: String(error) });
+    return {};
+  }
+}
+
+/**
+ * Rewrite variants that fail hard linter rules, keeping whichever version scores best
+ * A failed rewrite keeps the original; linting must never fail the generation
+ */
+async function enforceEmailRules(
+  userId: number,
+  url: string,
+  angle: GenerateEmailsInput['angle'],
+  language: LanguageCode,
+  emails: GeneratedEmails,
+  signal?: AbortSignal
+): Promise<LintedEmails> {
+  let rewrites = 0;
+
+  const variants = await Promise.all(
+    emails.variants.map(async (variant) => {
+      let best = variant;
+      let report = lintEmail(variant, 'variant', { hook: angle.hook, language });
+
+      for (let attempt = 0; attempt < MAX_VARIANT_REWRITES && !report.passed && !signal?.aborted; attempt++) {
+        try {
+          const { data: rewritten } = await rewriteEmailVariant(
+            url,
+            angle,
+            '',
+            best,
+            describeViolations(report),
+            language,
+            { userId }
+          );
+          const rewrittenReport = lintEmail(rewritten, 'variant', { hook: angle.hook, language });
+          rewrites++;
+          if (rewrittenReport.score >= report.score) {
+            best = { ...rewritten, type: variant.type };
+            report = rewrittenReport;
+          }
+        } catch (error) {
+          logAction('EMAIL_REWRITE_FAILED', userId, { url, type: variant.type, error: String(error) });
+          break;
+        }
+      }
+      return best;
+    })
+  );
+
+  const result = { variants, followUps: emails.followUps };
+  return { ...result, lint: lintGeneratedEmails(result, angle.hook, rewrites, language) };
+}
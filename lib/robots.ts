@@ -0,0 +1,308 @@
+import axios from 'axios';
+import { AppError } from './error-handler';
+import { assertPublicUrl, guardedHttpAgent, guardedHttpsAgent } from './url-guard';
+
+/**
+ * robots.txt support and per-host crawl politeness
+ *
+ * The scraper identifies itself with an honest User-Agent, obeys the robots.txt group
+ * that matches it (RFC 9309: longest match wins, `*` and `$` wildcards, allow wins ties),
+ * honours Crawl-delay and never runs more than a few requests per host at once.
+ * Policies are cached per origin for up to 24 hours.
+ */
+
+const APP_URL = process.env.NEXTAUTH_URL;
+
+export const SCRAPER_USER_AGENT =
+  process.env.SCRAPER_USER_AGENT || `ColdMailAIBot/1.0${APP_URL ? ` (+${APP_URL})` : ''}`;
+
+// Product token matched against robots.txt User-agent lines ("coldmailaibot")
+const ROBOTS_AGENT = SCRAPER_USER_AGENT.split(/[\/\s]/)[0].toLowerCase();
+
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Unreachable robots.txt is retried sooner than a successful fetch
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_ORIGINS = 1000;
+const MAX_ROBOTS_BYTES = 500_000;
+const MAX_ROBOTS_REDIRECTS = 5;
+
+const MAX_REQUESTS_PER_HOST = Number(process.env.SCRAPER_MAX_CONCURRENCY_PER_HOST) || 2;
+const MIN_HOST_DELAY_MS = Number(process.env.SCRAPER_MIN_DELAY_MS) || 250;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsPolicy {
+  // "missing" = 4xx (everything allowed), "unreachable" = 5xx/network error (nothing allowed)
+  status: 'ok' | 'missing' | 'unreachable';
+  rules: RobotsRule[];
+  // Seconds between requests requested by the site, if any
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+const policyCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const pendingPolicies = new Map<string, Promise<RobotsPolicy>>();
+
+function patternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt into User-agent groups plus the Sitemap lines
+ */
+export function parseRobotsTxt(text: string): { groups: RobotsGroup[]; sitemaps: string[] } {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow allows everything, which is the default anyway
+      if (!value) continue;
+      current.rules.push({ allow: key === 'allow', path: value, pattern: patternToRegExp(value) });
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Merge the groups that apply to our crawler: the most specific matching agent, else `*`
+ */
+function selectRules(groups: RobotsGroup[]): { rules: RobotsRule[]; crawlDelay?: number } {
+  const matchLength = (agent: string) =>
+    agent !== '*' && ROBOTS_AGENT.startsWith(agent) ? agent.length : 0;
+
+  let best = 0;
+  for (const group of groups) {
+    for (const agent of group.agents) best = Math.max(best, matchLength(agent));
+  }
+
+  const selected = groups.filter((group) =>
+    best > 0 ? group.agents.some((agent) => matchLength(agent) === best) : group.agents.includes('*')
+  );
+
+  const delays = selected.map((group) => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return {
+    rules: selected.flatMap((group) => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+async function fetchRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  let currentUrl = `${origin}/robots.txt`;
+
+  try {
+    for (let hop = 0; hop <= MAX_ROBOTS_REDIRECTS; hop++) {
+      await assertPublicUrl(currentUrl);
+
+      const response = await withHostLimit(currentUrl, () =>
+        axios.get<string>(currentUrl, {
+          timeout: 5000,
+          maxContentLength: MAX_ROBOTS_BYTES,
+          maxRedirects: 0,
+          validateStatus: () => true,
+          responseType: 'text',
+          httpAgent: guardedHttpAgent,
+          httpsAgent: guardedHttpsAgent,
+          headers: { 'User-Agent': SCRAPER_USER_AGENT, 'Accept': 'text/plain,*/*;q=0.5' },
+        })
+      );
+
+      if (response.status >= 300 && response.status < 400 && response.headers['location']) {
+        currentUrl = new URL(response.headers['location'], currentUrl).toString();
+        continue;
+      }
+      if (response.status >= 500 || response.status === 429) {
+        return { status: 'unreachable', rules: [], sitemaps: [] };
+      }
+      if (response.status >= 400) {
+        return { status: 'missing', rules: [], sitemaps: [] };
+      }
+
+      const { groups, sitemaps } = parseRobotsTxt(String(response.data));
+      return { status: 'ok', ...selectRules(groups), sitemaps };
+    }
+
+    // Too many redirects is treated like a missing file (RFC 9309 2.3.1.2)
+    return { status: 'missing', rules: [], sitemaps: [] };
+  } catch (error) {
+    // Guard violations are the URL's problem, not the robots policy's
+    if (error instanceof AppError) throw error;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`[Robots] Could not fetch robots.txt for ${origin}: ${errorMsg}`);
+    return { status: 'unreachable', rules: [], sitemaps: [] };
+  }
+}
+
+/**
+ * Robots policy for the URL's origin (cached; concurrent lookups share one fetch)
+ */
+export async function getRobotsPolicy(url: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+
+  const cached = policyCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  const pending = pendingPolicies.get(origin);
+  if (pending) return pending;
+
+  const request = fetchRobotsPolicy(origin)
+    .then((policy) => {
+      if (policyCache.size >= MAX_CACHED_ORIGINS) {
+        policyCache.delete(policyCache.keys().next().value as string);
+      }
+      const ttl = policy.status === 'unreachable' ? ROBOTS_ERROR_TTL_MS : ROBOTS_CACHE_TTL_MS;
+      policyCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+      return policy;
+    })
+    .finally(() => {
+      pendingPolicies.delete(origin);
+    });
+
+  pendingPolicies.set(origin, request);
+  return request;
+}
+
+export function isUrlAllowed(policy: RobotsPolicy, url: string): boolean {
+  if (policy.status === 'missing') return true;
+  if (policy.status === 'unreachable') return false;
+
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`;
+
+  // /robots.txt itself is always allowed
+  if (parsed.pathname === '/robots.txt') return true;
+
+  let match: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+}
+
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  return isUrlAllowed(await getRobotsPolicy(url), url);
+}
+
+// ============================================
+// PER-HOST POLITENESS
+// ============================================
+
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  waiters: (() => void)[];
+}
+
+const hostStates = new Map<string, HostState>();
+
+function pruneHostStates() {
+  const now = Date.now();
+  hostStates.forEach((state, host) => {
+    if (state.active === 0 && state.waiters.length === 0 && state.nextStartAt <= now) {
+      hostStates.delete(host);
+    }
+  });
+}
+
+/**
+ * Delay between request starts for a host: the robots Crawl-delay if known, else the minimum
+ */
+export function getHostDelayMs(url: string): number {
+  const cached = policyCache.get(new URL(url).origin);
+  const crawlDelayMs = (cached?.policy.crawlDelay ?? 0) * 1000;
+  return Math.max(MIN_HOST_DELAY_MS, crawlDelayMs);
+}
+
+/**
+ * Run `fn` once the host has a free slot and its crawl delay has elapsed
+ */
+export async function withHostLimit<T>(url: string, fn: () => Promise<T>): Promise<T> {
+  const host = new URL(url).hostname.toLowerCase();
+
+  let state = hostStates.get(host);
+  if (!state) {
+    if (hostStates.size >= MAX_CACHED_ORIGINS) pruneHostStates();
+    state = { active: 0, nextStartAt: 0, waiters: [] };
+    hostStates.set(host, state);
+  }
+
+  while (state.active >= MAX_REQUESTS_PER_HOST) {
+    await new Promise<void>((resolve) => state!.waiters.push(resolve));
+  }
+  state.active++;
+
+  // Reserve the next start time before waiting so parallel callers queue up behind us
+  const now = Date.now();
+  const startAt = Math.max(now, state.nextStartAt);
+  state.nextStartAt = startAt + getHostDelayMs(url);
+  if (startAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, startAt - now));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    state.active--;
+    const next = state.waiters.shift();
+    if (next) {
+      next();
+    } else if (state.active === 0 && state.nextStartAt <= Date.now()) {
+      hostStates.delete(host);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { scrapeWebsite, isPageNotModified, assertCachedScrapeAllowed, ScrapeOptions, ScrapeResult } from './scraper';
+import {
+  getScrapeCacheEntry,
+  upsertScrapeCacheEntry,
+  extendScrapeCacheEntry,
+  ScrapeCacheRow,
+} from './db';
+
+// How long a scrape is served without revalidation (hours)
+const CACHE_TTL_MS = (Number(process.env.SCRAPE_CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// Query parameters that never change page content
+const TRACKING_PARAMS = /^(utm_.+|gclid|fbclid|msclkid|mc_cid|mc_eid|ref|_hsenc|_hsmi)$/i;
+
+export interface ScrapeCacheInfo {
+  hit: boolean;
+  // True when a stale entry was confirmed unchanged with a conditional request
+  revalidated: boolean;
+  fetchedAt: string;
+  ageSeconds: number;
+  expiresAt: string;
+  contentHash: string;
+}
+
+export interface CachedScrape {
+  result: ScrapeResult | null;
+  cache: ScrapeCacheInfo | null;
+}
+
+/**
+ * Normalise a URL into a cache key: scheme-less, lowercase host without www,
+ * no default port, fragment, tracking params or trailing slash; params sorted
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const port = parsed.port && !['80', '443'].includes(parsed.port) ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '') || '/';
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${port}${path}${query}`;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function toCacheInfo(row: ScrapeCacheRow, hit: boolean, revalidated: boolean): ScrapeCacheInfo {
+  return {
+    hit,
+    revalidated,
+    fetchedAt: row.fetched_at,
+    ageSeconds: Math.max(0, Math.round((Date.now() - new Date(row.fetched_at).getTime()) / 1000)),
+    expiresAt: row.expires_at,
+    contentHash: row.content_hash,
+  };
+}
+
+/**
+ * Scrape a URL through the shared cache
+ * Fresh entries are served once the URL passes the live scrape's URL guard and robots.txt
+ * checks; stale entries are revalidated with ETag/Last-Modified
+ * before falling back to a full crawl. Cache failures never fail the scrape.
+ */
+export async function scrapeWithCache(
+  url: string,
+  options: { forceRefresh?: boolean } & ScrapeOptions = {}
+): Promise<CachedScrape> {
+  const key = normalizeUrl(url);
+
+  if (!options.forceRefresh) {
+    let entry: ScrapeCacheRow | null = null;
+    try {
+      entry = await getScrapeCacheEntry(key);
+    } catch (error) {
+      console.warn(`[ScrapeCache] Lookup failed for ${key}, scraping live`);
+    }
+
+    if (entry) {
+      const cached = entry.result;
+      // A site that now disallows us, or now resolves to a private address, is refused like a live scrape
+      await assertCachedScrapeAllowed(url, cached.url);
+
+      if (new Date(entry.expires_at).getTime() > Date.now()) {
+        console.log(`[ScrapeCache] Hit: ${key}`);
+        return { result: cached, cache: toCacheInfo(entry, true, false) };
+      }
+
+      const validators = { etag: entry.etag || undefined, lastModified: entry.last_modified || undefined };
+
+      if (await isPageNotModified(cached.url, validators)) {
+        const expiresAt = new Date(Date.now() + CACHE_TTL_MS).toISOString();
+        try {
+          await extendScrapeCacheEntry(key, expiresAt);
+        } catch {
+          // Still serve the revalidated entry
+        }
+        console.log(`[ScrapeCache] Revalidated (304): ${key}`);
+        return { result: cached, cache: toCacheInfo({ ...entry, expires_at: expiresAt }, true, true) };
+      }
+    }
+  }
+
+  const result = await scrapeWebsite(url, { onProgress: options.onProgress });
+  if (!result) {
+    return { result: null, cache: null };
+  }
+
+  const now = new Date();
+  const row: ScrapeCacheRow = {
+    normalized_url: key,
+    content_hash: hashContent(result.content),
+    result,
+    etag: result.validators.etag || null,
+    last_modified: result.validators.lastModified || null,
+    fetched_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + CACHE_TTL_MS).toISOString(),
+  };
+
+  try {
+    await upsertScrapeCacheEntry(row);
+  } catch (error) {
+    console.warn(`[ScrapeCache] Store failed for ${key}`);
+  }
+
+  return { result, cache: toCacheInfo(row, false, false) };
+}
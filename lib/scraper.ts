@@ -1,74 +1,520 @@
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import * as cheerio from 'cheerio';
-import { chromium } from 'playwright';
+import type { Request } from 'playwright';
+import { extractMetadata, mergeMetadata, SiteMetadata } from './metadata';
+import { collectHiringSignals, emptyHiringSignals, HiringSignals } from './hiring';
+import { detectTechnologies, mergeTechnologies, DetectedTechnology } from './tech-fingerprint';
+import { assertPublicUrl, guardedHttpAgent, guardedHttpsAgent, isPublicUrl } from './url-guard';
+import { AppError } from './error-handler';
+import { withBrowserPage } from './browser-pool';
+import {
+  SCRAPER_USER_AGENT,
+  getRobotsPolicy,
+  isAllowedByRobots,
+  isUrlAllowed,
+  withHostLimit,
+} from './robots';
 
-export async function scrapeWebsite(url: string): Promise<string | null> {
-  // Try axios first (faster)
-  try {
-    console.log(`[Scraper] Attempting axios on: ${url}`);
-    
-    const response = await axios.get(url, {
+// Crawl budget: homepage + a handful of high-signal pages
+const MAX_PAGES = 6;
+const MAX_PAGE_BYTES = 1_500_000;
+const MAX_TOTAL_BYTES = 5_000_000;
+const MAX_PAGE_CHARS = 4000;
+const MAX_TOTAL_CHARS = 20000;
+const MIN_PAGE_CHARS = 100;
+const MAX_SITEMAP_URLS = 500;
+const FETCH_CONCURRENCY = 3;
+const MAX_REDIRECTS = 5;
+// Sites asking for a longer Crawl-delay only get their homepage read
+const MAX_CRAWL_DELAY_SECONDS = 5;
+
+// Path keywords that usually hold real evidence, weighted by usefulness
+const HIGH_SIGNAL_PATHS: { pattern: RegExp; weight: number }[] = [
+  { pattern: /about|company|who-we-are|our-story|mission/, weight: 10 },
+  { pattern: /team|leadership|founders|people/, weight: 9 },
+  { pattern: /careers|jobs|join-us|hiring|work-with-us/, weight: 9 },
+  { pattern: /customers|case-stud|success-stor|testimonials/, weight: 8 },
+  { pattern: /pricing|plans/, weight: 8 },
+  { pattern: /news|press|newsroom|media/, weight: 7 },
+  { pattern: /blog|insights|articles|stories/, weight: 6 },
+];
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|mp4|mp3|woff2?)$/i;
+
+export interface ScrapedPage {
+  url: string;
+  title: string;
+  text: string;
+}
+
+// HTTP validators used for conditional revalidation of cached scrapes
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ScrapeResult {
+  url: string;
+  pages: ScrapedPage[];
+  // Page sections labelled by URL, ready to drop into a prompt
+  content: string;
+  metadata: SiteMetadata;
+  technologies: DetectedTechnology[];
+  hiring: HiringSignals;
+  // Homepage validators, for conditional revalidation
+  validators: PageValidators;
+}
+
+// Progress reported while crawling, for the streaming endpoints
+export interface ScrapeProgress {
+  stage: 'homepage' | 'rendering' | 'page';
+  url: string;
+  title?: string;
+  // 1-based position among the pages being read (page stage only)
+  index?: number;
+  total?: number;
+}
+
+export interface ScrapeOptions {
+  onProgress?: (progress: ScrapeProgress) => void;
+}
+
+interface FetchedHtml {
+  url: string;
+  html: string;
+  bytes: number;
+  validators?: PageValidators;
+  // Response headers and cookie names, for technology fingerprinting
+  headers?: Record<string, unknown>;
+  cookies?: string[];
+}
+
+/**
+ * GET a URL, following redirects manually so every hop goes through the URL guard and
+ * robots.txt before it is requested
+ * Returns the final URL and response (2xx or 304); guard violations throw AppError BLOCKED_URL,
+ * disallowed hops BLOCKED_BY_ROBOTS
+ */
+async function guardedGet(
+  url: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<{ url: string; response: AxiosResponse<string> } | null> {
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(currentUrl);
+    await assertAllowedByRobots(currentUrl);
+
+    const requestUrl = currentUrl;
+    const response = await withHostLimit(requestUrl, () => axios.get<string>(requestUrl, {
       timeout: 8000,
+      maxContentLength: MAX_PAGE_BYTES,
+      maxRedirects: 0,
+      validateStatus: (status) => status >= 200 && status < 400,
+      responseType: 'text',
+      httpAgent: guardedHttpAgent,
+      httpsAgent: guardedHttpsAgent,
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'User-Agent': SCRAPER_USER_AGENT,
         'Accept-Language': 'en-US,en;q=0.9',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        ...extraHeaders,
       },
-    });
+    }));
 
-    const $ = cheerio.load(response.data);
-    const text = $('body')
-      .text()
-      .replace(/\s+/g, ' ')
-      .trim()
-      .substring(0, 5000);
+    if (response.status >= 300 && response.status !== 304) {
+      const location = response.headers['location'];
+      if (!location) return null;
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    return { url: currentUrl, response };
+  }
 
-    if (text.length > 300) {
-      console.log(`[Scraper] ✅ Success via axios: ${text.length} chars`);
-      return text;
+  console.log(`[Scraper] Too many redirects for ${url}`);
+  return null;
+}
+
+/**
+ * Fetch a page as HTML; guard violations are rethrown, other failures return null
+ */
+async function fetchHtml(url: string): Promise<FetchedHtml | null> {
+  try {
+    const fetched = await guardedGet(url);
+    if (!fetched || fetched.response.status !== 200) return null;
+
+    const { response } = fetched;
+    const contentType = String(response.headers['content-type'] || '');
+    if (contentType && !contentType.includes('html') && !contentType.includes('xml')) {
+      return null;
     }
+
+    const html = typeof response.data === 'string' ? response.data : String(response.data);
+    return {
+      url: fetched.url,
+      html,
+      bytes: Buffer.byteLength(html),
+      validators: {
+        etag: response.headers['etag'] || undefined,
+        lastModified: response.headers['last-modified'] || undefined,
+      },
+      headers: { ...response.headers },
+    };
   } catch (error) {
-    console.log(`[Scraper] Axios failed, trying Playwright...`);
+    if (error instanceof AppError) throw error;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.log(`[Scraper] Fetch failed for ${url}: ${errorMsg}`);
+    return null;
   }
+}
+
+/**
+ * Conditional GET with If-None-Match / If-Modified-Since
+ * True only when the server confirms the page is unchanged (304)
+ */
+export async function isPageNotModified(url: string, validators: PageValidators): Promise<boolean> {
+  if (!validators.etag && !validators.lastModified) return false;
 
-  // Fallback to Playwright for JS-heavy sites
-  let browser = null;
+  try {
+    // A site that has since disallowed us must go through the full (blocking) scrape
+    if (!(await isAllowedByRobots(url))) return false;
+
+    const headers: Record<string, string> = {};
+    if (validators.etag) headers['If-None-Match'] = validators.etag;
+    if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+    const fetched = await guardedGet(url, headers);
+    return fetched?.response.status === 304;
+  } catch {
+    return false;
+  }
+}
+
+async function fetchHtmlWithPlaywright(url: string): Promise<FetchedHtml | null> {
   try {
     console.log(`[Scraper] Attempting Playwright on: ${url}`);
-    
-    browser = await chromium.launch({ headless: true });
-    const page = await browser.newPage();
-    
-    // Set longer timeout for Playwright
-    page.setDefaultTimeout(15000);
-    
-    await page.goto(url, { waitUntil: 'domcontentloaded' });
-    
-    // Wait for body content to load
-    await page.waitForSelector('body', { timeout: 5000 }).catch(() => {});
-    
-    const text = await page.evaluate(() => {
-      return document.body.innerText
-        .replace(/\s+/g, ' ')
-        .trim()
-        .substring(0, 5000);
-    });
 
-    if (text && text.length > 300) {
-      console.log(`[Scraper] ✅ Success via Playwright: ${text.length} chars`);
-      return text;
-    }
+    // Guard the navigation and every subrequest the page makes; navigations are page
+    // fetches, so robots.txt applies to each of them too
+    let blockedNavigation: string | null = null;
+    let disallowedNavigation: string | null = null;
+    const checkNavigation = async (navigationUrl: string) => {
+      if (!(await isPublicUrl(navigationUrl))) blockedNavigation = navigationUrl;
+      else if (!(await isAllowedByRobots(navigationUrl).catch(() => false))) disallowedNavigation = navigationUrl;
+      return !blockedNavigation && !disallowedNavigation;
+    };
+    const allowRequest = async (request: Request) => {
+      if (request.url().startsWith('data:')) return true;
+      if (request.isNavigationRequest()) return checkNavigation(request.url());
+      return isPublicUrl(request.url());
+    };
+
+    return await withBrowserPage(
+      async (page) => {
+        // Set longer timeout for Playwright
+        page.setDefaultTimeout(15000);
+
+        // Redirect hops are not always routed, so re-check them as they happen
+        const redirectChecks: Promise<void>[] = [];
+        page.on('request', (request) => {
+          if (request.redirectedFrom() && request.isNavigationRequest()) {
+            redirectChecks.push(checkNavigation(request.url()).then(() => undefined));
+          }
+        });
+
+        const response = await page.goto(url, { waitUntil: 'domcontentloaded' });
+
+        // Wait for body content to load
+        await page.waitForSelector('body', { timeout: 5000 }).catch(() => {});
+
+        await Promise.all(redirectChecks);
+        if (blockedNavigation) {
+          console.warn(`[Scraper] Playwright navigation blocked: ${blockedNavigation}`);
+          throw new AppError(400, 'URL points to a private or reserved network address', 'BLOCKED_URL');
+        }
+        if (disallowedNavigation) {
+          await assertAllowedByRobots(disallowedNavigation);
+          // Allowed by now, but the navigation was already aborted
+          return null;
+        }
+        await assertPublicUrl(page.url());
+
+        const html = await page.content();
+        const cookies = (await page.context().cookies()).map((cookie) => cookie.name);
+        return { url: page.url(), html, bytes: Buffer.byteLength(html), headers: response?.headers(), cookies };
+      },
+      { userAgent: SCRAPER_USER_AGENT, allowRequest }
+    );
   } catch (error) {
+    if (error instanceof AppError) throw error;
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.error(`[Scraper] Playwright error: ${errorMsg}`);
-  } finally {
-    if (browser) {
-      await browser.close().catch(() => {});
+    return null;
+  }
+}
+
+/**
+ * Throw AppError BLOCKED_BY_ROBOTS unless robots.txt lets us fetch the URL
+ */
+async function assertAllowedByRobots(url: string): Promise<void> {
+  const policy = await getRobotsPolicy(url);
+  if (isUrlAllowed(policy, url)) return;
+
+  console.log(`[Scraper] robots.txt disallows ${url} (${policy.status})`);
+  throw new AppError(
+    403,
+    policy.status === 'unreachable'
+      ? "This website's robots.txt could not be retrieved, so it cannot be researched right now. Please try again later."
+      : "This website's robots.txt does not allow automated access to this page, so it cannot be researched.",
+    'BLOCKED_BY_ROBOTS'
+  );
+}
+
+/**
+ * The checks a live scrape makes before fetching, for a result served from the cache:
+ * the requested URL and the page it landed on must still be public and allowed by robots.txt
+ */
+export async function assertCachedScrapeAllowed(url: string, finalUrl: string): Promise<void> {
+  for (const target of Array.from(new Set([url, finalUrl]))) {
+    await assertPublicUrl(target);
+    await assertAllowedByRobots(target);
+  }
+}
+
+function extractPage(url: string, html: string): ScrapedPage {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, svg, template, iframe').remove();
+
+  const title = $('title').first().text().replace(/\s+/g, ' ').trim();
+  const text = $('body')
+    .text()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_PAGE_CHARS);
+
+  return { url, title, text };
+}
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+}
+
+function normalizeLink(href: string, base: URL): string | null {
+  try {
+    const link = new URL(href, base);
+    if (link.protocol !== 'http:' && link.protocol !== 'https:') return null;
+    if (!sameSite(link, base)) return null;
+    if (SKIPPED_EXTENSIONS.test(link.pathname)) return null;
+    link.hash = '';
+    link.search = '';
+    return link.toString().replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+// A sitemap named by a sitemap index, kept only when it is on the prospect's site
+function sameSiteSitemap(loc: string, base: URL): string | null {
+  try {
+    const sitemap = new URL(loc, base);
+    if (sitemap.protocol !== 'http:' && sitemap.protocol !== 'https:') return null;
+    return sameSite(sitemap, base) ? sitemap.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function discoverLinks(html: string, base: URL): string[] {
+  const $ = cheerio.load(html);
+  const links = new Set<string>();
+  $('a[href]').each((_, el) => {
+    const link = normalizeLink($(el).attr('href') || '', base);
+    if (link) links.add(link);
+  });
+  return Array.from(links);
+}
+
+/**
+ * Read same-site URLs from sitemap.xml, following at most a few nested sitemap indexes
+ */
+async function discoverSitemapLinks(base: URL, robotsSitemaps: string[] = []): Promise<string[]> {
+  const links = new Set<string>();
+  const queue = robotsSitemaps.length > 0 ? robotsSitemaps.slice(0, 3) : [`${base.origin}/sitemap.xml`];
+  let sitemapsRead = 0;
+
+  while (queue.length > 0 && sitemapsRead < 3 && links.size < MAX_SITEMAP_URLS) {
+    const sitemapUrl = queue.shift()!;
+    sitemapsRead++;
+    if (!(await isAllowedByRobots(sitemapUrl).catch(() => false))) continue;
+
+    const fetched = await fetchHtml(sitemapUrl).catch(() => null);
+    if (!fetched) continue;
+
+    const $ = cheerio.load(fetched.html, { xmlMode: true });
+    const isIndex = $('sitemapindex').length > 0;
+
+    $('loc').each((_, el) => {
+      const loc = $(el).text().trim();
+      if (isIndex) {
+        const sitemap = sameSiteSitemap(loc, base);
+        if (sitemap) queue.push(sitemap);
+        return;
+      }
+      const link = normalizeLink(loc, base);
+      if (link && links.size < MAX_SITEMAP_URLS) links.add(link);
+    });
+  }
+
+  return Array.from(links);
+}
+
+function scoreLink(link: string): number {
+  const path = new URL(link).pathname.toLowerCase();
+  const depth = path.split('/').filter(Boolean).length;
+  let score = 0;
+  for (const { pattern, weight } of HIGH_SIGNAL_PATHS) {
+    if (pattern.test(path)) score = Math.max(score, weight);
+  }
+  if (score === 0) return 0;
+  // Prefer section landing pages (/about) over deep articles (/blog/2021/some-post)
+  return score - Math.max(0, depth - 1) * 2;
+}
+
+function pickCandidates(links: string[], homeUrl: string, limit: number): string[] {
+  const home = homeUrl.replace(/\/$/, '');
+  const seenKinds = new Set<RegExp>();
+
+  return links
+    .filter((link) => link !== home)
+    .map((link) => ({ link, score: scoreLink(link) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .filter(({ link }) => {
+      // One page per kind, so six blog posts don't crowd out the about page
+      const path = new URL(link).pathname.toLowerCase();
+      const kind = HIGH_SIGNAL_PATHS.find(({ pattern }) => pattern.test(path))?.pattern;
+      if (!kind || seenKinds.has(kind)) return false;
+      seenKinds.add(kind);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ link }) => link);
+}
+
+/**
+ * Format scraped pages as URL-labelled sections so the model can cite its source
+ */
+export function formatPagesForPrompt(pages: ScrapedPage[], maxChars: number = MAX_TOTAL_CHARS): string {
+  const sections: string[] = [];
+  let used = 0;
+
+  for (const page of pages) {
+    const header = `### PAGE: ${page.url}${page.title ? ` (${page.title})` : ''}\n`;
+    const remaining = maxChars - used - header.length;
+    if (remaining <= MIN_PAGE_CHARS) break;
+
+    const text = page.text.substring(0, remaining);
+    sections.push(header + text);
+    used += header.length + text.length + 2;
+  }
+
+  return sections.join('\n\n');
+}
+
+export async function scrapeWebsite(url: string, options: ScrapeOptions = {}): Promise<ScrapeResult | null> {
+  const report = options.onProgress || (() => {});
+  console.log(`[Scraper] Crawling: ${url}`);
+
+  await assertAllowedByRobots(url);
+
+  // Homepage: try axios first (faster), fall back to Playwright for JS-heavy sites
+  report({ stage: 'homepage', url });
+  let home = await fetchHtml(url);
+  let homePage = home ? extractPage(home.url, home.html) : null;
+
+  if (!homePage || homePage.text.length <= 300) {
+    console.log(`[Scraper] Axios returned too little content, trying Playwright...`);
+    report({ stage: 'rendering', url });
+    const rendered = await fetchHtmlWithPlaywright(url);
+    const renderedPage = rendered ? extractPage(rendered.url, rendered.html) : null;
+    if (renderedPage && renderedPage.text.length > (homePage?.text.length || 0)) {
+      home = rendered;
+      homePage = renderedPage;
     }
   }
 
-  console.error(`[Scraper] ❌ Failed to scrape ${url}`);
-  return null;
+  if (!home || !homePage || homePage.text.length <= 300) {
+    console.error(`[Scraper] ❌ Failed to scrape ${url}`);
+    return null;
+  }
+
+  const base = new URL(home.url);
+  const robots = await getRobotsPolicy(home.url);
+  const pages: ScrapedPage[] = [homePage];
+  const pageMetadata: SiteMetadata[] = [extractMetadata(home.html, home.url)];
+  const pageTechnologies: DetectedTechnology[][] = [detectTechnologies(home)];
+  // Raw HTML of every fetched page, for careers pages and embedded job boards
+  const rawPages = [{ url: home.url, html: home.html }];
+  let totalBytes = home.bytes;
+
+  // A long Crawl-delay can't fit in an interactive request, so respect it by reading less
+  const crawlDelayTooLong = (robots.crawlDelay ?? 0) > MAX_CRAWL_DELAY_SECONDS;
+  if (crawlDelayTooLong) {
+    console.log(`[Scraper] Crawl-delay ${robots.crawlDelay}s for ${base.hostname}, reading homepage only`);
+  }
+
+  // Discover same-site links from the homepage and sitemap.xml, keeping those robots.txt allows
+  const sitemapLinks = crawlDelayTooLong ? [] : await discoverSitemapLinks(base, robots.sitemaps);
+  const links = Array.from(new Set([...discoverLinks(home.html, base), ...sitemapLinks]));
+  const allowedLinks: string[] = [];
+  for (const link of crawlDelayTooLong ? [] : links) {
+    if (await isAllowedByRobots(link).catch(() => false)) allowedLinks.push(link);
+  }
+  const candidates = pickCandidates(allowedLinks, home.url, MAX_PAGES - 1);
+
+  console.log(`[Scraper] Found ${links.length} links (${allowedLinks.length} allowed), fetching ${candidates.length} high-signal pages`);
+  const total = candidates.length + 1;
+  report({ stage: 'page', url: home.url, title: homePage.title, index: 1, total });
+
+  for (let i = 0; i < candidates.length && totalBytes < MAX_TOTAL_BYTES; i += FETCH_CONCURRENCY) {
+    const batch = candidates.slice(i, i + FETCH_CONCURRENCY);
+    // A subpage redirecting somewhere private is skipped, not fatal
+    const fetched = await Promise.all(batch.map((link) => fetchHtml(link).catch(() => null)));
+
+    for (const result of fetched) {
+      if (!result || totalBytes + result.bytes > MAX_TOTAL_BYTES) continue;
+      totalBytes += result.bytes;
+
+      const page = extractPage(result.url, result.html);
+      if (page.text.length >= MIN_PAGE_CHARS) {
+        pages.push(page);
+        report({ stage: 'page', url: page.url, title: page.title, index: pages.length, total });
+        pageMetadata.push(extractMetadata(result.html, result.url));
+      }
+      // Script tags on thin pages (checkout, login) still count
+      pageTechnologies.push(detectTechnologies(result));
+      rawPages.push({ url: result.url, html: result.html });
+    }
+  }
+
+  const hiring = await collectHiringSignals(rawPages).catch((error) => {
+    console.log(`[Scraper] Hiring extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+    return emptyHiringSignals();
+  });
+
+  const content = formatPagesForPrompt(pages);
+  console.log(`[Scraper] ✅ Crawled ${pages.length} pages (${totalBytes} bytes, ${content.length} chars)`);
+
+  return {
+    url: home.url,
+    pages,
+    content,
+    metadata: mergeMetadata(pageMetadata),
+    technologies: mergeTechnologies(pageTechnologies),
+    hiring,
+    validators: home.validators || {},
+  };
 }
 
 export async function extractDomain(url: string): Promise<string | null> {
@@ -0,0 +1,198 @@
+/**
+ * Local spam-filter risk scoring for outgoing emails
+ *
+ * Heuristics modelled on what content filters penalise: trigger words, shouting,
+ * link-heavy or image-only bodies, URL shorteners and bait subjects. Each finding adds
+ * points; the total (capped at 100) is the risk score. No network calls and no server
+ * dependencies, so the editor can run it as the user types.
+ */
+
+export type SpamRule =
+  | 'trigger_word'
+  | 'caps'
+  | 'punctuation'
+  | 'link_ratio'
+  | 'url_shortener'
+  | 'images'
+  | 'subject';
+
+export interface SpamFinding {
+  rule: SpamRule;
+  points: number;
+  message: string;
+}
+
+export interface SpamReport {
+  // 0 (clean) to 100 (almost certainly filtered)
+  score: number;
+  level: 'low' | 'medium' | 'high';
+  findings: SpamFinding[];
+}
+
+// Phrase -> points; grouped by why filters dislike them
+const TRIGGER_WORDS: Record<string, number> = {
+  // Money
+  free: 8,
+  'free trial': 6,
+  discount: 8,
+  'save big': 10,
+  'lowest price': 10,
+  'cash bonus': 15,
+  'extra income': 15,
+  'earn $': 15,
+  'make money': 15,
+  'no cost': 8,
+  'best price': 8,
+  // Urgency
+  urgent: 8,
+  'act now': 12,
+  'limited time': 10,
+  'expires today': 10,
+  'last chance': 10,
+  "don't miss out": 8,
+  'once in a lifetime': 12,
+  'immediately': 4,
+  // Overpromising
+  guarantee: 8,
+  guaranteed: 8,
+  '100% satisfied': 12,
+  'risk-free': 10,
+  'no obligation': 8,
+  'double your': 12,
+  'miracle': 12,
+  // Shady calls to action
+  'click here': 12,
+  'click below': 10,
+  'buy now': 12,
+  'order now': 12,
+  'winner': 12,
+  'congratulations': 8,
+  'you have been selected': 15,
+  'dear friend': 10,
+  'this is not spam': 20,
+  unsubscribe: 2,
+};
+
+const URL_SHORTENERS = [
+  'bit.ly',
+  'tinyurl.com',
+  't.co',
+  'goo.gl',
+  'ow.ly',
+  'is.gd',
+  'buff.ly',
+  'rebrand.ly',
+  'cutt.ly',
+  'shorturl.at',
+  'tiny.cc',
+  'lnkd.in',
+];
+
+// Trigger-word points are capped so one long list doesn't swamp everything else
+const MAX_TRIGGER_POINTS = 40;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function countWords(text: string): number {
+  return (text.match(/[A-Za-z0-9'’-]+/g) || []).length;
+}
+
+export function spamLevel(score: number): SpamReport['level'] {
+  if (score >= 60) return 'high';
+  if (score >= 30) return 'medium';
+  return 'low';
+}
+
+export function analyzeSpamRisk({ subject = '', body = '' }: { subject?: string; body?: string }): SpamReport {
+  const findings: SpamFinding[] = [];
+  const text = `${subject}\n${body}`;
+
+  // Trigger words
+  let triggerPoints = 0;
+  const triggers: string[] = [];
+  for (const [phrase, points] of Object.entries(TRIGGER_WORDS)) {
+    // \b doesn't work next to "$" or "%", so only anchor word characters
+    const start = /^\w/.test(phrase) ? '\\b' : '';
+    const end = /\w$/.test(phrase) ? '\\b' : '';
+    if (new RegExp(`${start}${escapeRegExp(phrase)}${end}`, 'i').test(text)) {
+      triggerPoints += points;
+      triggers.push(phrase);
+    }
+  }
+  if (triggers.length > 0) {
+    findings.push({
+      rule: 'trigger_word',
+      points: Math.min(triggerPoints, MAX_TRIGGER_POINTS),
+      message: `Spam trigger words: ${triggers.map((phrase) => `"${phrase}"`).join(', ')}`,
+    });
+  }
+
+  // Shouting: share of uppercase letters and ALL-CAPS words
+  const letters = body.replace(/[^A-Za-z]/g, '');
+  const upperRatio = letters.length > 0 ? letters.replace(/[^A-Z]/g, '').length / letters.length : 0;
+  const capsWords = (body.match(/\b[A-Z]{4,}\b/g) || []).length;
+  if (letters.length >= 20 && upperRatio > 0.3) {
+    findings.push({ rule: 'caps', points: 20, message: `${Math.round(upperRatio * 100)}% of letters are capitals` });
+  } else if (capsWords >= 3) {
+    findings.push({ rule: 'caps', points: 10, message: `${capsWords} words in ALL CAPS` });
+  }
+
+  // Punctuation
+  const exclamations = (body.match(/!/g) || []).length;
+  const repeated = (text.match(/[!?]{2,}/g) || []).length;
+  if (repeated > 0) {
+    findings.push({ rule: 'punctuation', points: 10, message: 'Repeated punctuation like "!!" or "?!"' });
+  }
+  if (exclamations > 2) {
+    findings.push({ rule: 'punctuation', points: 8, message: `${exclamations} exclamation marks in the body` });
+  }
+
+  // Links: count, share of the text, shorteners
+  const links: string[] = body.match(/\b(?:https?:\/\/|www\.)[^\s<>"')]+/gi) || [];
+  const words = countWords(body.replace(/\b(?:https?:\/\/|www\.)[^\s<>"')]+/gi, ' '));
+  const linkChars = links.reduce((total, link) => total + link.length, 0);
+  if (links.length > 0 && (links.length > 3 || words / links.length < 25 || linkChars / Math.max(1, body.length) > 0.3)) {
+    findings.push({
+      rule: 'link_ratio',
+      points: 15,
+      message: `${links.length} link${links.length === 1 ? '' : 's'} for ${words} words of text`,
+    });
+  }
+
+  const shorteners = links.filter((link) => {
+    const host = link.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0].toLowerCase();
+    return URL_SHORTENERS.includes(host);
+  });
+  if (shorteners.length > 0) {
+    findings.push({
+      rule: 'url_shortener',
+      points: 20,
+      message: `URL shorteners hide the destination: ${shorteners.join(', ')}`,
+    });
+  }
+
+  // Images, as HTML or markdown
+  const images = (body.match(/<img\b|!\[[^\]]*\]\([^)]*\)/gi) || []).length;
+  if (images > 0 && words < 30) {
+    findings.push({ rule: 'images', points: 30, message: 'Mostly images with little text' });
+  } else if (images > 0) {
+    findings.push({ rule: 'images', points: 5, message: `${images} image${images === 1 ? '' : 's'} in a cold email` });
+  }
+
+  // Subject line
+  if (/^\s*(re|fwd?)\s*:/i.test(subject)) {
+    findings.push({ rule: 'subject', points: 15, message: 'Subject fakes a reply or forward ("RE:", "FW:")' });
+  }
+  if (subject.replace(/[^A-Za-z]/g, '').length >= 6 && subject === subject.toUpperCase()) {
+    findings.push({ rule: 'subject', points: 15, message: 'Subject is in ALL CAPS' });
+  }
+  if (/[$€£]\s?\d|\d+\s?%/.test(subject)) {
+    findings.push({ rule: 'subject', points: 10, message: 'Subject mentions money or percentages' });
+  }
+  if (/!/.test(subject)) {
+    findings.push({ rule: 'subject', points: 5, message: 'Exclamation mark in the subject' });
+  }
+
+  const score = Math.min(100, findings.reduce((total, finding) => total + finding.points, 0));
+  return { score, level: spamLevel(score), findings: findings.sort((a, b) => b.points - a.points) };
+}
@@ -37,35 +37,3 @@ export async function createCheckoutSession(
     throw error;
   }
 }
-
-export function getCreditsForPlan(plan: string): number {
-  const creditsMap: Record<string, number> = {
-    'starter': 10,
-    'pro': 25,
-    'unlimited': 999999,
-    'lifetime': 999999,
-  };
-  return creditsMap[plan] || 0;
-}
-
-export async function updateUserCredits(userId: string, creditsToAdd: number) {
-  try {
-    const { createClient } = await import('@supabase/supabase-js');
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    );
-
-    const { error } = await supabase
-      .from('users')
-      .update({ credits: supabase.rpc('increment_by', { increment_by: creditsToAdd }) })
-      .eq('id', userId);
-
-    if (error) {
-      throw error;
-    }
-  } catch (error) {
-    console.error('Update credits error:', error);
-    throw error;
-  }
-}
@@ -0,0 +1,245 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Technology-stack fingerprinting
+ *
+ * Matches raw HTML, script src URLs, response headers, cookie names and the meta
+ * generator tag against a local signature database. Each kind of match carries a
+ * weight; independent matches for the same technology raise its confidence.
+ */
+
+export type TechCategory = 'analytics' | 'crm' | 'cms' | 'payments' | 'chat' | 'hosting';
+
+type EvidenceKind = 'meta' | 'header' | 'script' | 'cookie' | 'html';
+
+export interface DetectedTechnology {
+  name: string;
+  category: TechCategory;
+  // 0-1, combined from every independent match
+  confidence: number;
+  // Short descriptions of what matched, e.g. "script: js.stripe.com/v3"
+  evidence: string[];
+  // First page the technology was seen on
+  url: string;
+}
+
+export interface FingerprintInput {
+  url: string;
+  html: string;
+  headers?: Record<string, unknown>;
+  // Cookie names or raw Set-Cookie values
+  cookies?: string[];
+}
+
+interface TechSignature {
+  name: string;
+  category: TechCategory;
+  meta?: RegExp;
+  // Lowercase header name -> value pattern
+  headers?: Record<string, RegExp>;
+  scripts?: RegExp[];
+  cookies?: RegExp[];
+  html?: RegExp[];
+}
+
+// How much a single match of each kind says on its own
+const EVIDENCE_WEIGHTS: Record<EvidenceKind, number> = {
+  meta: 0.95,
+  header: 0.9,
+  script: 0.85,
+  cookie: 0.7,
+  html: 0.5,
+};
+
+const MIN_CONFIDENCE = 0.5;
+const MAX_EVIDENCE = 3;
+
+const SIGNATURES: TechSignature[] = [
+  // Analytics
+  { name: 'Google Analytics', category: 'analytics', scripts: [/googletagmanager\.com\/gtag\/js/, /google-analytics\.com\/(analytics|ga)\.js/], cookies: [/^_ga(_|$)/, /^_gid$/] },
+  { name: 'Google Tag Manager', category: 'analytics', scripts: [/googletagmanager\.com\/gtm\.js/], html: [/GTM-[A-Z0-9]{4,}/] },
+  { name: 'Segment', category: 'analytics', scripts: [/cdn\.segment\.(com|io)/], cookies: [/^ajs_anonymous_id$/] },
+  { name: 'Mixpanel', category: 'analytics', scripts: [/cdn\.mxpnl\.com/, /mixpanel.*\.js/], cookies: [/^mp_[a-f0-9]+_mixpanel$/] },
+  { name: 'Amplitude', category: 'analytics', scripts: [/cdn\.amplitude\.com/], cookies: [/^AMP_/] },
+  { name: 'Heap', category: 'analytics', scripts: [/cdn\.heapanalytics\.com/] },
+  { name: 'Hotjar', category: 'analytics', scripts: [/static\.hotjar\.com/], cookies: [/^_hj/] },
+  { name: 'FullStory', category: 'analytics', scripts: [/fullstory\.com\/s\/fs\.js/, /edge\.fullstory\.com/] },
+  { name: 'Microsoft Clarity', category: 'analytics', scripts: [/clarity\.ms\/tag/] },
+  { name: 'PostHog', category: 'analytics', scripts: [/posthog\.com\/static\/array\.js/, /\/static\/array\.js.*posthog/], cookies: [/^ph_.*_posthog$/] },
+  { name: 'Plausible', category: 'analytics', scripts: [/plausible\.io\/js/] },
+  { name: 'Meta Pixel', category: 'analytics', scripts: [/connect\.facebook\.net\/.*fbevents\.js/], cookies: [/^_fbp$/] },
+  { name: 'LinkedIn Insight Tag', category: 'analytics', scripts: [/snap\.licdn\.com\/li\.lms-analytics/], html: [/_linkedin_partner_id/] },
+
+  // CRM and marketing automation
+  { name: 'HubSpot', category: 'crm', scripts: [/js\.hs-scripts\.com/, /js\.hsforms\.net/, /js\.hs-analytics\.net/, /js\.usemessages\.com/], cookies: [/^hubspotutk$/, /^__hs(tc|sc|fp)$/] },
+  { name: 'Salesforce Pardot', category: 'crm', scripts: [/pi\.pardot\.com/, /cdn\.pardot\.com/], cookies: [/^visitor_id\d+/], html: [/piAId\s*=/] },
+  { name: 'Marketo', category: 'crm', scripts: [/munchkin\.marketo\.net/], cookies: [/^_mkto_trk$/] },
+  { name: 'Pipedrive', category: 'crm', scripts: [/leadbooster-chat\.pipedrive\.com/, /webforms\.pipedrive\.com/] },
+  { name: 'Zoho', category: 'crm', scripts: [/salesiq\.zoho(public)?\.(com|eu|in)/, /zohocdn\.com\/crm/] },
+  { name: 'ActiveCampaign', category: 'crm', scripts: [/trackcmp\.net/, /activehosted\.com/] },
+  { name: 'Mailchimp', category: 'crm', scripts: [/chimpstatic\.com/], html: [/list-manage\.com\/subscribe/] },
+  { name: 'Klaviyo', category: 'crm', scripts: [/static\.klaviyo\.com/], cookies: [/^__kla_id$/] },
+
+  // CMS and site builders
+  { name: 'WordPress', category: 'cms', meta: /^WordPress/i, html: [/\/wp-content\//, /\/wp-includes\//], headers: { link: /api\.w\.org/ } },
+  { name: 'Webflow', category: 'cms', meta: /^Webflow/i, scripts: [/assets\.website-files\.com/, /website-files\.com\/.*webflow/], html: [/data-wf-page=/] },
+  { name: 'Squarespace', category: 'cms', meta: /Squarespace/i, scripts: [/static1\.squarespace\.com/, /assets\.squarespace\.com/] },
+  { name: 'Wix', category: 'cms', meta: /Wix\.com/i, scripts: [/static\.parastorage\.com/], headers: { 'x-wix-request-id': /.+/ } },
+  { name: 'Drupal', category: 'cms', meta: /^Drupal/i, headers: { 'x-generator': /Drupal/i, 'x-drupal-cache': /.+/ }, html: [/\/sites\/default\/files\//] },
+  { name: 'Ghost', category: 'cms', meta: /^Ghost/i },
+  { name: 'Framer', category: 'cms', meta: /^Framer/i, scripts: [/framerusercontent\.com/] },
+  { name: 'HubSpot CMS', category: 'cms', meta: /^HubSpot/i, headers: { 'x-hs-hub-id': /.+/ } },
+  { name: 'Contentful', category: 'cms', html: [/(images|assets)\.ctfassets\.net/] },
+  { name: 'Sanity', category: 'cms', html: [/cdn\.sanity\.io/] },
+  { name: 'Shopify', category: 'cms', meta: /Shopify/i, scripts: [/cdn\.shopify\.com/], headers: { 'x-shopid': /.+/, 'powered-by': /Shopify/i }, cookies: [/^_shopify_y$/] },
+
+  // Payments
+  { name: 'Stripe', category: 'payments', scripts: [/js\.stripe\.com/], html: [/buy\.stripe\.com/] },
+  { name: 'PayPal', category: 'payments', scripts: [/paypal\.com\/sdk\/js/, /paypalobjects\.com/] },
+  { name: 'Braintree', category: 'payments', scripts: [/js\.braintreegateway\.com/] },
+  { name: 'Paddle', category: 'payments', scripts: [/cdn\.paddle\.com/] },
+  { name: 'Chargebee', category: 'payments', scripts: [/js\.chargebee\.com/] },
+  { name: 'Recurly', category: 'payments', scripts: [/js\.recurly\.com/] },
+  { name: 'Adyen', category: 'payments', scripts: [/checkoutshopper-(live|test)\.adyen\.com/] },
+  { name: 'Square', category: 'payments', scripts: [/web\.squarecdn\.com/, /js\.squareup\.com/] },
+
+  // Chat widgets
+  { name: 'Intercom', category: 'chat', scripts: [/widget\.intercom\.io/, /js\.intercomcdn\.com/], cookies: [/^intercom-(id|session)-/] },
+  { name: 'Drift', category: 'chat', scripts: [/js\.driftt\.com/, /js\.drift\.com/], cookies: [/^driftt_aid$/] },
+  { name: 'Zendesk', category: 'chat', scripts: [/static\.zdassets\.com/, /ekr\.zdassets\.com/] },
+  { name: 'Crisp', category: 'chat', scripts: [/client\.crisp\.chat/] },
+  { name: 'LiveChat', category: 'chat', scripts: [/cdn\.livechatinc\.com/] },
+  { name: 'Tawk.to', category: 'chat', scripts: [/embed\.tawk\.to/] },
+  { name: 'Freshchat', category: 'chat', scripts: [/wchat\.freshchat\.com/, /fw-cdn\.com/] },
+  { name: 'Olark', category: 'chat', scripts: [/static\.olark\.com/] },
+
+  // Hosting and CDN
+  { name: 'Cloudflare', category: 'hosting', headers: { server: /cloudflare/i, 'cf-ray': /.+/ }, cookies: [/^__cf_bm$/, /^__cflb$/] },
+  { name: 'Vercel', category: 'hosting', headers: { server: /^Vercel$/i, 'x-vercel-id': /.+/ } },
+  { name: 'Netlify', category: 'hosting', headers: { server: /^Netlify$/i, 'x-nf-request-id': /.+/ } },
+  { name: 'Amazon CloudFront', category: 'hosting', headers: { 'x-amz-cf-id': /.+/, via: /CloudFront/i } },
+  { name: 'Amazon S3', category: 'hosting', headers: { server: /^AmazonS3$/i } },
+  { name: 'Fastly', category: 'hosting', headers: { 'x-fastly-request-id': /.+/, 'x-served-by': /^cache-/ } },
+  { name: 'Akamai', category: 'hosting', headers: { server: /AkamaiGHost/i, 'x-akamai-transformed': /.+/ } },
+  { name: 'Google Cloud', category: 'hosting', headers: { server: /^Google Frontend$/i, via: /google/i } },
+  { name: 'Heroku', category: 'hosting', headers: { via: /vegur/i } },
+  { name: 'GitHub Pages', category: 'hosting', headers: { server: /^GitHub\.com$/i } },
+  { name: 'Microsoft Azure', category: 'hosting', headers: { 'x-azure-ref': /.+/, 'x-ms-request-id': /.+/ } },
+];
+
+function normalizeHeaders(headers: FingerprintInput['headers'] = {}): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) continue;
+    normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return normalized;
+}
+
+function cookieNames(input: FingerprintInput): string[] {
+  const raw = [...(input.cookies || [])];
+  const setCookie = input.headers?.['set-cookie'];
+  if (Array.isArray(setCookie)) raw.push(...setCookie.map(String));
+  else if (typeof setCookie === 'string') raw.push(...setCookie.split('\n'));
+  return raw.map((cookie) => cookie.split('=')[0].trim()).filter(Boolean);
+}
+
+function shorten(value: string, max: number = 80): string {
+  const stripped = value.replace(/^https?:\/\//, '');
+  return stripped.length > max ? `${stripped.substring(0, max)}...` : stripped;
+}
+
+/**
+ * Detect technologies on a single page
+ */
+export function detectTechnologies(input: FingerprintInput): DetectedTechnology[] {
+  const $ = cheerio.load(input.html);
+  const headers = normalizeHeaders(input.headers);
+  const cookies = cookieNames(input);
+
+  const scripts: string[] = [];
+  $('script[src]').each((_, el) => {
+    const src = $(el).attr('src');
+    if (src) scripts.push(src);
+  });
+  const generators = $('meta[name="generator" i]')
+    .map((_, el) => $(el).attr('content') || '')
+    .get()
+    .filter(Boolean);
+
+  const detected: DetectedTechnology[] = [];
+
+  for (const signature of SIGNATURES) {
+    const matches: { kind: EvidenceKind; detail: string }[] = [];
+
+    const generator = signature.meta && generators.find((content) => signature.meta!.test(content));
+    if (generator) matches.push({ kind: 'meta', detail: `meta generator: ${shorten(generator)}` });
+
+    for (const [name, pattern] of Object.entries(signature.headers || {})) {
+      if (headers[name] && pattern.test(headers[name])) {
+        matches.push({ kind: 'header', detail: `header: ${name}=${shorten(headers[name], 40)}` });
+      }
+    }
+
+    const script = signature.scripts && scripts.find((src) => signature.scripts!.some((pattern) => pattern.test(src)));
+    if (script) matches.push({ kind: 'script', detail: `script: ${shorten(script)}` });
+
+    const cookie = signature.cookies && cookies.find((name) => signature.cookies!.some((pattern) => pattern.test(name)));
+    if (cookie) matches.push({ kind: 'cookie', detail: `cookie: ${cookie}` });
+
+    const htmlMatch = signature.html?.map((pattern) => input.html.match(pattern)).find(Boolean);
+    if (htmlMatch) matches.push({ kind: 'html', detail: `html: ${shorten(htmlMatch[0], 40)}` });
+
+    if (matches.length === 0) continue;
+
+    // Independent signals: 1 - product of (1 - weight), one signal per kind
+    const kinds = new Set(matches.map((match) => match.kind));
+    const miss = Array.from(kinds).reduce((acc, kind) => acc * (1 - EVIDENCE_WEIGHTS[kind]), 1);
+    const confidence = Math.round((1 - miss) * 100) / 100;
+    if (confidence < MIN_CONFIDENCE) continue;
+
+    detected.push({
+      name: signature.name,
+      category: signature.category,
+      confidence,
+      evidence: matches.slice(0, MAX_EVIDENCE).map((match) => match.detail),
+      url: input.url,
+    });
+  }
+
+  return detected.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Merge per-page detections, keeping the highest confidence and its evidence
+ */
+export function mergeTechnologies(lists: DetectedTechnology[][]): DetectedTechnology[] {
+  const byName = new Map<string, DetectedTechnology>();
+
+  for (const list of lists) {
+    for (const technology of list) {
+      const existing = byName.get(technology.name);
+      if (!existing || technology.confidence > existing.confidence) {
+        byName.set(technology.name, technology);
+      }
+    }
+  }
+
+  return Array.from(byName.values()).sort(
+    (a, b) => a.category.localeCompare(b.category) || b.confidence - a.confidence
+  );
+}
+
+/**
+ * Render detections as compact lines for the analysis prompt (empty string if none)
+ */
+export function formatTechnologiesForPrompt(technologies?: DetectedTechnology[]): string {
+  if (!technologies || technologies.length === 0) return '';
+
+  return technologies
+    .map(
+      (technology) =>
+        `- ${technology.name} (${technology.category}, confidence ${technology.confidence}) on ${technology.url}: ${technology.evidence.join('; ')}`
+    )
+    .join('\n');
+}
@@ -0,0 +1,217 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { AppError } from './error-handler';
+
+/**
+ * Outbound request guard (SSRF protection)
+ *
+ * Every URL we fetch on behalf of a user is resolved and rejected if any address
+ * is loopback, private (RFC1918), link-local, CGNAT, IPv6 ULA, multicast/reserved
+ * or a cloud metadata endpoint. Applied in every environment; for local testing,
+ * hosts can be allowlisted explicitly with OUTBOUND_ALLOWED_HOSTS (comma separated,
+ * "*.example.test" matches subdomains).
+ */
+
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // RFC1918
+  ['100.64.0.0', 10], // CGNAT (also Alibaba metadata 100.100.100.200)
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (AWS/GCP/Azure metadata 169.254.169.254)
+  ['172.16.0.0', 12], // RFC1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // TEST-NET-1
+  ['192.168.0.0', 16], // RFC1918
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // TEST-NET-2
+  ['203.0.113.0', 24], // TEST-NET-3
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved + broadcast
+];
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'instance-data'];
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+function ipv4ToInt(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+function isBlockedIPv4(ip: string): boolean {
+  const value = ipv4ToInt(ip);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return (value & mask) === (ipv4ToInt(network) & mask);
+  });
+}
+
+/**
+ * Expand an IPv6 address into its 8 hextets
+ */
+function expandIPv6(ip: string): number[] {
+  let address = ip.toLowerCase().split('%')[0];
+
+  // Embedded IPv4 tail (::ffff:1.2.3.4)
+  const v4Tail = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Tail) {
+    const value = ipv4ToInt(v4Tail[1]);
+    address = address.replace(v4Tail[1], `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`);
+  }
+
+  const [head, tail] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const parts = address.includes('::')
+    ? [...headParts, ...Array(missing).fill('0'), ...tailParts]
+    : headParts;
+
+  return parts.map((part) => parseInt(part || '0', 16));
+}
+
+function isBlockedIPv6(ip: string): boolean {
+  const h = expandIPv6(ip);
+  if (h.length !== 8 || h.some((part) => Number.isNaN(part))) return true;
+
+  const isZeroPrefix = (count: number) => h.slice(0, count).every((part) => part === 0);
+  const embeddedV4 = `${h[6] >> 8}.${h[6] & 0xff}.${h[7] >> 8}.${h[7] & 0xff}`;
+
+  if (isZeroPrefix(8)) return true; // ::
+  if (isZeroPrefix(7) && h[7] === 1) return true; // ::1
+  if (isZeroPrefix(5) && h[5] === 0xffff) return isBlockedIPv4(embeddedV4); // IPv4-mapped
+  if (isZeroPrefix(6)) return isBlockedIPv4(embeddedV4); // IPv4-compatible (deprecated)
+  if (h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every((part) => part === 0)) return isBlockedIPv4(embeddedV4); // NAT64
+  if ((h[0] & 0xfe00) === 0xfc00) return true; // fc00::/7 unique local (incl. fd00:ec2::254)
+  if ((h[0] & 0xffc0) === 0xfe80) return true; // fe80::/10 link-local
+  if ((h[0] & 0xffc0) === 0xfec0) return true; // fec0::/10 site-local (deprecated)
+  if ((h[0] & 0xff00) === 0xff00) return true; // multicast
+  if (h[0] === 0x2001 && h[1] === 0x0db8) return true; // documentation
+  return false;
+}
+
+/**
+ * True if the IP address must never be reached from the server
+ */
+export function isBlockedAddress(ip: string): boolean {
+  const version = net.isIP(ip);
+  if (version === 4) return isBlockedIPv4(ip);
+  if (version === 6) return isBlockedIPv6(ip);
+  return true;
+}
+
+function getAllowedHosts(): string[] {
+  return (process.env.OUTBOUND_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isAllowlistedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return getAllowedHosts().some((allowed) =>
+    allowed.startsWith('*.') ? host.endsWith(allowed.substring(1)) : host === allowed
+  );
+}
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[/, '').replace(/\]$/, '');
+}
+
+/**
+ * Resolve a hostname and return the reason it is blocked, or null if it is public
+ */
+async function checkHostname(hostname: string): Promise<string | null> {
+  const host = stripBrackets(hostname.toLowerCase().replace(/\.$/, ''));
+
+  if (isAllowlistedHost(host)) return null;
+
+  if (BLOCKED_HOSTNAMES.includes(host) || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return `hostname ${host} is internal`;
+  }
+
+  if (net.isIP(host)) {
+    return isBlockedAddress(host) ? `address ${host} is private or reserved` : null;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `hostname ${host} could not be resolved`;
+  }
+
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  return blocked ? `${host} resolves to private or reserved address ${blocked.address}` : null;
+}
+
+/**
+ * Validate that a URL is http(s) and every address it resolves to is public
+ * Throws AppError BLOCKED_URL otherwise
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new AppError(400, 'Invalid URL format', 'INVALID_URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new AppError(400, 'Only http and https URLs can be researched', 'BLOCKED_URL');
+  }
+
+  const reason = await checkHostname(parsed.hostname);
+  if (reason) {
+    console.warn(`[UrlGuard] Blocked ${url}: ${reason}`);
+    throw new AppError(400, 'URL points to a private or reserved network address', 'BLOCKED_URL');
+  }
+}
+
+export async function isPublicUrl(url: string): Promise<boolean> {
+  try {
+    await assertPublicUrl(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * dns.lookup replacement for http agents: the connection itself is refused if the
+ * address resolved at connect time is private (closes the DNS-rebinding gap between
+ * assertPublicUrl and the actual request)
+ */
+export function guardedLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(`No addresses found for ${hostname}`);
+      error.code = 'ENOTFOUND';
+      return callback(error, []);
+    }
+
+    if (!isAllowlistedHost(hostname)) {
+      const blocked = list.find(({ address }) => isBlockedAddress(address));
+      if (blocked) {
+        const error: NodeJS.ErrnoException = new Error(`Blocked private address ${blocked.address} for ${hostname}`);
+        error.code = 'EBLOCKEDADDRESS';
+        return callback(error, []);
+      }
+    }
+
+    if (options.all) return callback(null, list);
+    callback(null, list[0].address, list[0].family);
+  });
+}
+
+// Agents for axios: every outbound socket resolves through guardedLookup
+export const guardedHttpAgent = new http.Agent({ lookup: guardedLookup });
+export const guardedHttpsAgent = new https.Agent({ lookup: guardedLookup });
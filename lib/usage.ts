@@ -0,0 +1,209 @@
+import { insertLLMUsage, getLLMUsageRows, getCreditSpendRows } from './db';
+import { getPlan, isUnlimitedPlan } from './plans';
+import type { LLMFeature, LLMProviderName, TokenUsage } from './llm';
+
+/**
+ * LLM usage accounting: tokens, latency, fallbacks and estimated cost per call,
+ * and the unit-economics report built from them
+ */
+
+// USD per 1M tokens (list prices); update when a provider changes pricing
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'fixture-v1': { input: 0, output: 0 },
+};
+
+// Failed and cancelled calls are recorded with what they spent before stopping
+export type LLMCallOutcome = 'success' | 'failed' | 'cancelled';
+
+export interface LLMCallRecord {
+  userId?: number;
+  feature: LLMFeature;
+  provider: LLMProviderName;
+  model: string;
+  promptVersion?: string;
+  usage: TokenUsage;
+  latencyMs: number;
+  attempts: number;
+  repairs?: number;
+  outcome?: LLMCallOutcome;
+}
+
+/**
+ * Estimated cost in USD; null when the model has no entry in MODEL_PRICING
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  // Providers sometimes report versioned names, e.g. gpt-4o-mini-2024-07-18
+  const key = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => model === name || model.startsWith(`${name}-`));
+  if (!key) return null;
+
+  const price = MODEL_PRICING[key];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Write a call to the usage ledger
+ * Never throws: accounting must not fail the request it describes
+ * LLM_USAGE_TRACKING=off skips the write (offline evaluation runs)
+ */
+export async function recordLLMUsage(call: LLMCallRecord): Promise<void> {
+  if (process.env.LLM_USAGE_TRACKING === 'off') return;
+
+  const cost = estimateCost(call.model, call.usage);
+  if (cost === null) {
+    console.warn(`No pricing for model ${call.model}; recording usage with zero cost`);
+  }
+
+  try {
+    await insertLLMUsage({
+      user_id: call.userId ?? null,
+      feature: call.feature,
+      provider: call.provider,
+      model: call.model,
+      prompt_version: call.promptVersion ?? null,
+      prompt_tokens: call.usage.promptTokens,
+      completion_tokens: call.usage.completionTokens,
+      tokens_estimated: call.usage.estimated,
+      latency_ms: call.latencyMs,
+      attempts: call.attempts,
+      repairs: call.repairs ?? 0,
+      outcome: call.outcome ?? 'success',
+      cost_usd: cost ?? 0,
+    });
+  } catch (error) {
+    console.error('Record LLM usage error:', error);
+  }
+}
+
+interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+  // Share of calls that needed a fallback model or a repair retry
+  fallbackRate: number;
+  repairRate: number;
+  // Share of calls that failed or were cancelled (their spend is in costUsd)
+  failureRate: number;
+}
+
+export interface PlanEconomics extends UsageTotals {
+  plan: string;
+  users: number;
+  // Credits spent by the plan's users in the period, net of refunds (from the credit ledger)
+  creditsSpent: number;
+  costPerCreditUsd: number | null;
+  revenuePerCreditUsd: number | null;
+  marginPerCreditUsd: number | null;
+}
+
+export interface UsageReport {
+  since: string;
+  totals: UsageTotals;
+  byFeature: (UsageTotals & { feature: string })[];
+  byModel: (UsageTotals & { model: string })[];
+  byPlan: PlanEconomics[];
+  topUsers: { userId: number; plan: string; calls: number; costUsd: number }[];
+  unpricedModels: string[];
+}
+
+type UsageRow = Awaited<ReturnType<typeof getLLMUsageRows>>[number];
+
+function totalsFor(rows: UsageRow[]): UsageTotals {
+  const calls = rows.length;
+  const sum = (pick: (row: UsageRow) => number) => rows.reduce((total, row) => total + pick(row), 0);
+
+  return {
+    calls,
+    promptTokens: sum((row) => row.prompt_tokens),
+    completionTokens: sum((row) => row.completion_tokens),
+    costUsd: Number(sum((row) => Number(row.cost_usd)).toFixed(6)),
+    avgLatencyMs: calls > 0 ? Math.round(sum((row) => row.latency_ms) / calls) : 0,
+    fallbackRate: calls > 0 ? rows.filter((row) => row.attempts > 1 + row.repairs).length / calls : 0,
+    repairRate: calls > 0 ? rows.filter((row) => row.repairs > 0).length / calls : 0,
+    failureRate: calls > 0 ? rows.filter((row) => row.outcome !== 'success').length / calls : 0,
+  };
+}
+
+function groupBy(rows: UsageRow[], keyOf: (row: UsageRow) => string): Map<string, UsageRow[]> {
+  const groups = new Map<string, UsageRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Aggregate the ledger since the given date, comparing LLM cost per credit with
+ * what each plan charges per credit (see lib/plans.ts)
+ */
+export async function buildUsageReport(since: string): Promise<UsageReport> {
+  const [rows, credits] = await Promise.all([getLLMUsageRows(since), getCreditSpendRows(since)]);
+  const planOf = (row: Pick<UsageRow, 'users'>) => row.users?.subscription_plan || 'free';
+
+  // Spends are negative and refunds positive, so the net spend is minus their sum
+  const creditsSpentByPlan = new Map<string, number>();
+  for (const row of credits) {
+    creditsSpentByPlan.set(planOf(row), (creditsSpentByPlan.get(planOf(row)) || 0) - row.amount);
+  }
+
+  const byPlan = Array.from(groupBy(rows, planOf).entries()).map(([plan, planRows]): PlanEconomics => {
+    const totals = totalsFor(planRows);
+    const creditsSpent = creditsSpentByPlan.get(plan) || 0;
+    const pricing = getPlan(plan);
+    // Unlimited is a flat monthly price, so per-credit revenue doesn't apply
+    const revenuePerCredit =
+      pricing.purchaseCredits > 0 && !isUnlimitedPlan(plan) ? pricing.priceUsd / pricing.purchaseCredits : null;
+    const costPerCredit = creditsSpent > 0 ? totals.costUsd / creditsSpent : null;
+
+    return {
+      plan,
+      ...totals,
+      users: new Set(planRows.map((row) => row.user_id)).size,
+      creditsSpent,
+      costPerCreditUsd: costPerCredit,
+      revenuePerCreditUsd: revenuePerCredit,
+      marginPerCreditUsd:
+        costPerCredit !== null && revenuePerCredit !== null ? revenuePerCredit - costPerCredit : null,
+    };
+  });
+
+  const userCosts = Array.from(groupBy(rows.filter((row) => row.user_id !== null), (row) => String(row.user_id)).values())
+    .map((userRows) => ({
+      userId: userRows[0].user_id as number,
+      plan: planOf(userRows[0]),
+      calls: userRows.length,
+      costUsd: totalsFor(userRows).costUsd,
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .slice(0, 10);
+
+  return {
+    since,
+    totals: totalsFor(rows),
+    byFeature: Array.from(groupBy(rows, (row) => row.feature).entries()).map(([feature, group]) => ({
+      feature,
+      ...totalsFor(group),
+    })),
+    byModel: Array.from(groupBy(rows, (row) => row.model).entries()).map(([model, group]) => ({
+      model,
+      ...totalsFor(group),
+    })),
+    byPlan,
+    topUsers: userCosts,
+    unpricedModels: Array.from(new Set(rows.map((row) => row.model))).filter(
+      (model) => estimateCost(model, { promptTokens: 0, completionTokens: 0, estimated: true }) === null
+    ),
+  };
+}
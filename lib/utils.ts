@@ -2,8 +2,9 @@ export function cn(...classes: (string | undefined | false)[]): string {
   return classes.filter(Boolean).join(' ');
 }
 
-export function formatDate(date: Date): string {
-  return date.toLocaleDateString('es-ES', {
+// Without a locale, uses the runtime's (in the browser, the user's own)
+export function formatDate(date: Date, locale?: string): string {
+  return date.toLocaleDateString(locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -126,3 +127,49 @@ export function exportToCSV(data: any[], filename: string = 'export.csv'): void
   document.body.removeChild(link);
 }
 
+
+/**
+ * Reads a Server-Sent Events response (see lib/event-stream.ts), calling onEvent
+ * with each event name and its parsed JSON data until the stream ends. The data is
+ * unchecked; callers narrow it by event name.
+ *
+ * @remarks
+ * - Keep-alive comment lines are ignored
+ * - Rejects with an AbortError if the fetch signal is aborted mid-stream
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) return;
+    onEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import { isPublicUrl } from './url-guard';
+import { LANGUAGE_CODES } from './language';
+import { KNOWLEDGE_KINDS } from './knowledge';
+import { CREDIT_HISTORY_TYPES } from './credit-history';
+import { PAID_PLAN_IDS } from './plans';
 
 /**
  * Validation schemas for all API endpoints
@@ -41,6 +46,37 @@ export const SigninSchema = z.object({
 
 export type SigninInput = z.infer<typeof SigninSchema>;
 
+// ===== Knowledge Base Schemas =====
+
+export const KnowledgeItemSchema = z.object({
+  kind: z.enum(KNOWLEDGE_KINDS, { required_error: 'Kind is required', invalid_type_error: 'Invalid kind' }),
+  title: z
+    .string({ required_error: 'Title is required', invalid_type_error: 'Title must be a string' })
+    .min(3, 'Title must be at least 3 characters')
+    .max(200, 'Title too long')
+    .trim(),
+  content: z
+    .string({ required_error: 'Content is required', invalid_type_error: 'Content must be a string' })
+    .min(10, 'Content must be at least 10 characters')
+    .max(2000, 'Content too long (max 2000 characters)')
+    .trim(),
+  tags: z
+    .array(z.string().min(1).max(40).trim(), { invalid_type_error: 'Tags must be a list' })
+    .max(10, 'At most 10 tags')
+    .optional()
+    .default([]),
+});
+
+export const UpdateKnowledgeItemSchema = KnowledgeItemSchema.partial();
+
+export type KnowledgeItemInput = z.infer<typeof KnowledgeItemSchema>;
+
+// Items a request may draw proof from; omitted means the whole knowledge base
+const knowledgeIds = z
+  .array(z.number().int().positive(), { invalid_type_error: 'knowledgeIds must be a list of IDs' })
+  .max(50, 'At most 50 knowledge items')
+  .optional();
+
 // ===== Research/Analyze Schemas =====
 
 export const AnalyzeSchema = z.object({
@@ -49,27 +85,8 @@ export const AnalyzeSchema = z.object({
     .url('Invalid URL format')
     .max(2048, 'URL too long')
     .refine(
-      (url) => {
-        try {
-          const urlObj = new URL(url);
-          // Reject localhost/private IPs in production
-          if (process.env.NODE_ENV === 'production') {
-            const hostname = urlObj.hostname;
-            if (
-              hostname === 'localhost' ||
-              hostname === '127.0.0.1' ||
-              hostname.startsWith('192.168.') ||
-              hostname.startsWith('10.') ||
-              hostname.startsWith('172.')
-            ) {
-              return false;
-            }
-          }
-          return true;
-        } catch {
-          return false;
-        }
-      },
+      // Resolves the hostname; blocks private/reserved targets in every environment
+      (url) => isPublicUrl(url),
       'Invalid or private URL'
     ),
   service: z
@@ -77,6 +94,16 @@ export const AnalyzeSchema = z.object({
     .min(3, 'Service description must be at least 3 characters')
     .max(500, 'Service description too long (max 500 characters)')
     .trim(),
+  forceRefresh: z
+    .boolean({ invalid_type_error: 'forceRefresh must be a boolean' })
+    .optional()
+    .default(false),
+  // Language for hooks and emails; "auto" writes in the site's own language when supported
+  language: z
+    .enum(['auto', ...LANGUAGE_CODES], { invalid_type_error: 'Unsupported language' })
+    .optional()
+    .default('auto'),
+  knowledgeIds,
 });
 
 export type AnalyzeInput = z.infer<typeof AnalyzeSchema>;
@@ -99,10 +126,66 @@ export const RespondSchema = z.object({
     .max(200, 'Angle too long')
     .optional()
     .default('unknown'),
+  // Research the original email came from, to attribute the reply to its prompt version
+  researchId: z
+    .number({ invalid_type_error: 'Research ID must be a number' })
+    .int('Research ID must be an integer')
+    .positive('Research ID must be positive')
+    .optional(),
 });
 
 export type RespondInput = z.infer<typeof RespondSchema>;
 
+// ===== Generation Profile Schemas =====
+
+// How emails are written: who is sending, in what voice, and what they ask for
+export const GenerationProfileSchema = z.object({
+  senderRole: z.string({ invalid_type_error: 'Sender role must be a string' }).max(100, 'Sender role too long').trim().optional(),
+  senderCompany: z
+    .string({ invalid_type_error: 'Sender company must be a string' })
+    .max(100, 'Sender company too long')
+    .trim()
+    .optional(),
+  valueProp: z
+    .string({ invalid_type_error: 'Value proposition must be a string' })
+    .max(500, 'Value proposition too long (max 500 characters)')
+    .trim()
+    .optional(),
+  tone: z.enum(['casual', 'formal', 'technical'], { invalid_type_error: 'Invalid tone' }).optional().default('casual'),
+  // Body length target in words; the linter's hard limit is 120
+  maxWords: z
+    .number({ invalid_type_error: 'maxWords must be a number' })
+    .int('maxWords must be an integer')
+    .min(40, 'maxWords must be at least 40')
+    .max(120, 'maxWords must be at most 120')
+    .optional()
+    .default(120),
+  // Unset lets each variant pick its own close
+  ctaStyle: z.enum(['meeting', 'resource', 'question'], { invalid_type_error: 'Invalid CTA style' }).optional(),
+  variantCount: z
+    .number({ invalid_type_error: 'variantCount must be a number' })
+    .int('variantCount must be an integer')
+    .min(1, 'variantCount must be at least 1')
+    .max(5, 'variantCount must be at most 5')
+    .optional()
+    .default(3),
+});
+
+export type GenerationProfile = z.infer<typeof GenerationProfileSchema>;
+
+export const SavedProfileSchema = z.object({
+  name: z
+    .string({ required_error: 'Name is required', invalid_type_error: 'Name must be a string' })
+    .min(1, 'Name is required')
+    .max(100, 'Name too long')
+    .trim(),
+  profile: GenerationProfileSchema,
+  // Used when a generation request names no profile
+  isDefault: z.boolean({ invalid_type_error: 'isDefault must be a boolean' }).optional().default(false),
+});
+
+export const UpdateSavedProfileSchema = SavedProfileSchema.partial();
+
 // ===== Email Generation Schema =====
 
 export const GenerateEmailsSchema = z.object({
@@ -120,20 +203,57 @@ export const GenerateEmailsSchema = z.object({
       .string({ required_error: 'Evidence is required', invalid_type_error: 'Evidence must be a string' })
       .min(5, 'Evidence must be at least 5 characters')
       .max(1000, 'Evidence too long'),
+    sourceUrl: z.string().url('Invalid source URL').max(2048, 'Source URL too long').optional(),
     reasoning: z.string().optional(),
     connection: z.string().optional(),
     specificityScore: z.number().optional(),
   }),
+  language: z
+    .enum(LANGUAGE_CODES, { invalid_type_error: 'Unsupported language' })
+    .optional()
+    .default('en'),
+  // An inline profile wins over profileId; with neither, the user's default profile is used
+  profile: GenerationProfileSchema.optional(),
+  profileId: z
+    .number({ invalid_type_error: 'Profile ID must be a number' })
+    .int('Profile ID must be an integer')
+    .positive('Profile ID must be positive')
+    .optional(),
+  knowledgeIds,
 });
 
 export type GenerateEmailsInput = z.infer<typeof GenerateEmailsSchema>;
 
+// ===== Spam Check Schemas =====
+
+export const SpamCheckSchema = z.object({
+  subject: z
+    .string({ invalid_type_error: 'Subject must be a string' })
+    .max(200, 'Subject too long')
+    .optional()
+    .default(''),
+  body: z
+    .string({ required_error: 'Body is required', invalid_type_error: 'Body must be a string' })
+    .max(10000, 'Body too long'),
+});
+
+export type SpamCheckInput = z.infer<typeof SpamCheckSchema>;
+
+export const SpamSettingsSchema = z.object({
+  mode: z.enum(['off', 'warn', 'block'], { invalid_type_error: 'Mode must be off, warn or block' }),
+  threshold: z
+    .number({ required_error: 'Threshold is required', invalid_type_error: 'Threshold must be a number' })
+    .int('Threshold must be an integer')
+    .min(1, 'Threshold must be between 1 and 100')
+    .max(100, 'Threshold must be between 1 and 100'),
+});
+
+export type SpamSettingsInput = z.infer<typeof SpamSettingsSchema>;
+
 // ===== Checkout Schema =====
 
 export const CheckoutSchema = z.object({
-  plan: z
-    .enum(['starter', 'pro', 'unlimited'])
-    .refine((plan) => ['starter', 'pro', 'unlimited'].includes(plan), 'Invalid plan'),
+  plan: z.enum(PAID_PLAN_IDS, { errorMap: () => ({ message: 'Invalid plan' }) }),
 });
 
 export type CheckoutInput = z.infer<typeof CheckoutSchema>;
@@ -154,6 +274,33 @@ export const SetCreditsSchema = z.object({
 
 export type SetCreditsInput = z.infer<typeof SetCreditsSchema>;
 
+// ===== Credit History Schemas =====
+
+const HistoryDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const CreditHistoryQuerySchema = z.object({
+  // Inclusive calendar days (UTC)
+  from: HistoryDateSchema.optional(),
+  to: HistoryDateSchema.optional(),
+  type: z.enum(CREDIT_HISTORY_TYPES, { invalid_type_error: 'Unknown history type' }).optional(),
+  format: z.enum(['json', 'csv']).optional().default('json'),
+  // nextCursor from the previous page
+  cursor: z.string().max(1000).optional(),
+});
+
+const HistoryPositionSchema = z.object({
+  createdAt: z.string().datetime({ offset: true }),
+  id: z.number().int().positive(),
+});
+
+// What a credit history cursor decodes to (see pageCreditHistory)
+export const CreditHistoryCursorSchema = z.object({
+  ledger: HistoryPositionSchema.optional(),
+  payments: HistoryPositionSchema.optional(),
+});
+
+export type CreditHistoryQuery = z.infer<typeof CreditHistoryQuerySchema>;
+
 // ===== Utility Functions =====
 
 /**
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { formatComparison } from './report';
+import type { EvalRun } from './scoring';
+
+/**
+ * Compare two evaluation runs saved by scripts/eval/run.ts
+ *
+ * Usage: npm run eval:compare -- <baseline label> <candidate label>
+ * Prints the report and saves it to scripts/eval/results/<baseline>-vs-<candidate>.md
+ */
+
+const RESULTS_DIR = path.join(__dirname, 'results');
+
+function readRun(label: string): EvalRun {
+  const file = path.join(RESULTS_DIR, `${label}.json`);
+  if (!fs.existsSync(file)) throw new Error(`No results for "${label}" (run scripts/eval/run.ts --label ${label})`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function main() {
+  const [baselineLabel, candidateLabel] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+  if (!baselineLabel || !candidateLabel) {
+    throw new Error('Usage: compare.ts <baseline label> <candidate label>');
+  }
+
+  const report = formatComparison(readRun(baselineLabel), readRun(candidateLabel));
+  const file = path.join(RESULTS_DIR, `${baselineLabel}-vs-${candidateLabel}.md`);
+  fs.writeFileSync(file, report);
+
+  console.log(report);
+  console.log(`Report saved to ${path.relative(process.cwd(), file)}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Compare failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+
+/**
+ * Loaded before anything from lib/ so modules that read env at import see .env.local
+ */
+
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+// Evaluation calls are not product usage
+process.env.LLM_USAGE_TRACKING = 'off';
@@ -0,0 +1,105 @@
+import { EVAL_TASKS, EvalRun, EvalTask, summarizeRun } from './scoring';
+
+/**
+ * Side-by-side report of two evaluation runs over the same dataset, as markdown
+ */
+
+// Metrics where a lower value is the better one
+const LOWER_IS_BETTER = new Set(['errors', 'violations']);
+
+export interface CaseRegression {
+  task: EvalTask;
+  caseId: string;
+  // Checks that passed in the baseline and fail in the candidate, or "error"
+  lost: string[];
+}
+
+function formatNumber(value: number | undefined): string {
+  if (value === undefined) return '–';
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+function formatDelta(name: string, baseline: number | undefined, candidate: number | undefined): string {
+  if (baseline === undefined || candidate === undefined) return '';
+  const delta = Math.round((candidate - baseline) * 1000) / 1000;
+  if (delta === 0) return '0';
+  const better = LOWER_IS_BETTER.has(name) ? delta < 0 : delta > 0;
+  return `${delta > 0 ? '+' : ''}${formatNumber(delta)} ${better ? '▲' : '▼'}`;
+}
+
+/**
+ * Cases the candidate does worse on: a check it stopped passing, or a call that now fails
+ */
+export function findRegressions(baseline: EvalRun, candidate: EvalRun): CaseRegression[] {
+  const regressions: CaseRegression[] = [];
+
+  for (const before of baseline.results) {
+    const after = candidate.results.find((result) => result.task === before.task && result.caseId === before.caseId);
+    if (!after || !before.ok) continue;
+
+    const lost = after.ok
+      ? Object.keys(before.checks).filter((name) => before.checks[name] && after.checks[name] === false)
+      : ['error'];
+    if (lost.length > 0) regressions.push({ task: before.task, caseId: before.caseId, lost });
+  }
+
+  return regressions;
+}
+
+export function formatComparison(baseline: EvalRun, candidate: EvalRun): string {
+  const before = summarizeRun(baseline);
+  const after = summarizeRun(candidate);
+  const lines = [
+    `# Eval: ${baseline.label} vs ${candidate.label}`,
+    '',
+    `Dataset ${baseline.dataset} (${baseline.mode}) vs ${candidate.dataset} (${candidate.mode})`,
+  ];
+  if (baseline.dataset !== candidate.dataset) {
+    lines.push('', '**Warning:** the runs used different datasets, so the numbers are not comparable.');
+  }
+
+  for (const task of EVAL_TASKS) {
+    const a = before[task];
+    const b = after[task];
+    if (!a && !b) continue;
+
+    lines.push(
+      '',
+      `## ${task}`,
+      '',
+      `| | ${baseline.label} | ${candidate.label} | Δ |`,
+      '|---|---|---|---|',
+      `| prompt | ${a?.promptVersions.join(', ') || '–'} | ${b?.promptVersions.join(', ') || '–'} | |`,
+      `| model | ${a?.models.join(', ') || '–'} | ${b?.models.join(', ') || '–'} | |`,
+      `| cases | ${formatNumber(a?.cases)} | ${formatNumber(b?.cases)} | |`,
+      `| errors | ${formatNumber(a?.errors)} | ${formatNumber(b?.errors)} | ${formatDelta('errors', a?.errors, b?.errors)} |`,
+      `| ms per case | ${formatNumber(a?.meanDurationMs)} | ${formatNumber(b?.meanDurationMs)} | |`
+    );
+
+    const metricNames = Array.from(new Set([...Object.keys(a?.metrics || {}), ...Object.keys(b?.metrics || {})]));
+    for (const name of metricNames) {
+      const x = a?.metrics[name];
+      const y = b?.metrics[name];
+      lines.push(`| ${name} | ${formatNumber(x)} | ${formatNumber(y)} | ${formatDelta(name, x, y)} |`);
+    }
+
+    const checkNames = Array.from(new Set([...Object.keys(a?.checks || {}), ...Object.keys(b?.checks || {})]));
+    for (const name of checkNames) {
+      const x = a?.checks[name];
+      const y = b?.checks[name];
+      lines.push(`| ✓ ${name} | ${formatNumber(x)} | ${formatNumber(y)} | ${formatDelta(name, x, y)} |`);
+    }
+  }
+
+  const regressions = findRegressions(baseline, candidate);
+  lines.push('', '## Regressions', '');
+  if (regressions.length === 0) {
+    lines.push('None.');
+  } else {
+    for (const regression of regressions) {
+      lines.push(`- ${regression.task} / ${regression.caseId}: ${regression.lost.join(', ')}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
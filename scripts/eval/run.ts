@@ -0,0 +1,161 @@
+import './env';
+import fs from 'fs';
+import path from 'path';
+import { analyzeProspect, generateEmails, handleResponse } from '../../lib/gemini';
+import { formatPagesForPrompt } from '../../lib/scraper';
+import { emptyHiringSignals } from '../../lib/hiring';
+import { detectLanguage, resolveTargetLanguage } from '../../lib/language';
+import type { Angle } from '../../lib/llm/schemas';
+import {
+  prospectMetadata,
+  scoreAnalysis,
+  scoreEmails,
+  scoreResponse,
+  summarizeRun,
+  CaseResult,
+  EvalRun,
+  EvalTask,
+  ProspectCase,
+  ReplyCase,
+} from './scoring';
+
+/**
+ * Offline evaluation run: analyzeProspect, generateEmails and handleResponse over a
+ * versioned dataset of saved pages and replies, scored deterministically
+ *
+ * Usage: npm run eval -- --label <name> [--dataset v1] [--mode replay|record|live]
+ *   replay (default)  fixture provider, answering from the dataset's recordings; a prompt
+ *                     without a recording fails its case and the run
+ *   record            configured provider; every response is saved to the recordings
+ *   live              configured provider, nothing saved
+ *
+ * Prompt versions and models come from the usual env (PROMPT_VERSION_*, LLM_PROVIDER,
+ * GEMINI_MODELS, OPENAI_MODEL). Results go to scripts/eval/results/<label>.json;
+ * compare two with scripts/eval/compare.ts.
+ */
+
+const EVAL_DIR = __dirname;
+const MODES = ['replay', 'record', 'live'];
+
+function readArgs(argv: string[]): { label: string; dataset: string; mode: string } {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].substring(2)] = argv[i + 1];
+  }
+
+  const mode = args.mode || 'replay';
+  if (!args.label) throw new Error('Missing --label (name for this run, e.g. baseline)');
+  if (!MODES.includes(mode)) throw new Error(`Unknown --mode "${mode}" (expected ${MODES.join(', ')})`);
+  return { label: args.label, dataset: args.dataset || 'v1', mode };
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// Point the LLM layer at the dataset's recordings before any provider is created
+function configureProviders(mode: string, recordingsDir: string) {
+  if (mode === 'replay') {
+    for (const key of ['LLM_PROVIDER', 'LLM_PROVIDER_ANALYZE', 'LLM_PROVIDER_GENERATE', 'LLM_PROVIDER_RESPOND']) {
+      process.env[key] = 'fixture';
+    }
+    process.env.LLM_FIXTURES_DIR = recordingsDir;
+    // Scoring canned fixture output would look like a result; fail instead
+    process.env.LLM_FIXTURES_STRICT = 'true';
+  } else if (mode === 'record') {
+    process.env.LLM_RECORD_DIR = recordingsDir;
+  }
+}
+
+async function timed(
+  task: EvalTask,
+  caseId: string,
+  fn: () => Promise<Pick<CaseResult, 'metrics' | 'checks' | 'promptVersion' | 'model'>>
+): Promise<CaseResult> {
+  const startedAt = Date.now();
+  try {
+    const scored = await fn();
+    return { task, caseId, ok: true, durationMs: Date.now() - startedAt, ...scored };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${task} ${caseId}: ${message}`);
+    return { task, caseId, ok: false, error: message, durationMs: Date.now() - startedAt, metrics: {}, checks: {} };
+  }
+}
+
+async function evaluateProspect(prospect: ProspectCase): Promise<CaseResult[]> {
+  const content = formatPagesForPrompt(prospect.pages);
+  const metadata = prospectMetadata(prospect);
+  const siteLanguage = detectLanguage(content, metadata.language);
+  const language = resolveTargetLanguage(prospect.language, siteLanguage);
+  let firstAngle: Pick<Angle, 'hook' | 'evidence'> | undefined;
+
+  const analysis = await timed('analyze', prospect.id, async () => {
+    const run = await analyzeProspect(prospect.company, content, prospect.service, {
+      metadata,
+      technologies: [],
+      hiring: emptyHiringSignals(),
+      language: { target: language, site: siteLanguage.code },
+    });
+    firstAngle = run.data.angles[0];
+    return { ...scoreAnalysis(run.data, prospect), promptVersion: run.promptVersion, model: run.model };
+  });
+
+  const emails = await timed('generate', prospect.id, async () => {
+    const angle = prospect.angle || firstAngle;
+    if (!angle) throw new Error('No angle to write emails for (add one to the case or fix the analysis)');
+    const run = await generateEmails(prospect.company, angle.hook, angle.evidence, prospect.service, language);
+    return { ...scoreEmails(run.data, angle.hook, language), promptVersion: run.promptVersion, model: run.model };
+  });
+
+  return [analysis, emails];
+}
+
+async function evaluateReply(reply: ReplyCase): Promise<CaseResult> {
+  return timed('respond', reply.id, async () => {
+    const run = await handleResponse(reply.originalEmail, reply.prospectResponse, reply.angleUsed);
+    return { ...scoreResponse(run.data, reply), promptVersion: run.promptVersion, model: run.model };
+  });
+}
+
+async function main() {
+  const { label, dataset, mode } = readArgs(process.argv.slice(2));
+  const datasetDir = path.join(EVAL_DIR, 'datasets', dataset);
+  if (!fs.existsSync(datasetDir)) throw new Error(`Dataset ${dataset} not found in ${datasetDir}`);
+
+  configureProviders(mode, path.join(datasetDir, 'recordings'));
+  const prospects = readJson<ProspectCase[]>(path.join(datasetDir, 'prospects.json'));
+  const replies = readJson<ReplyCase[]>(path.join(datasetDir, 'replies.json'));
+  console.log(`🧪 Eval "${label}": dataset ${dataset}, ${prospects.length} prospects, ${replies.length} replies (${mode})`);
+
+  const run: EvalRun = { label, dataset, mode, startedAt: new Date().toISOString(), results: [] };
+  // One case at a time: live providers rate limit, and latency stays comparable
+  for (const prospect of prospects) {
+    run.results.push(...(await evaluateProspect(prospect)));
+  }
+  for (const reply of replies) {
+    run.results.push(await evaluateReply(reply));
+  }
+
+  const resultsDir = path.join(EVAL_DIR, 'results');
+  fs.mkdirSync(resultsDir, { recursive: true });
+  const file = path.join(resultsDir, `${label}.json`);
+  fs.writeFileSync(file, JSON.stringify(run, null, 2));
+
+  console.log(JSON.stringify(summarizeRun(run), null, 2));
+  console.log(`✅ Results saved to ${path.relative(process.cwd(), file)}`);
+
+  // Replays are deterministic, so a failed case is a missing recording or a bug, not model noise
+  const failed = run.results.filter((result) => !result.ok);
+  if (mode === 'replay' && failed.length > 0) {
+    throw new Error(
+      `${failed.length} case(s) failed in replay: ${failed.map((result) => `${result.task} ${result.caseId}`).join(', ')}. ` +
+        `If a recording is missing, run with --mode record for this prompt version.`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error('Eval failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+import { lintGeneratedEmails } from '../../lib/email-linter';
+import { buildEvidenceSources, verifyAngles } from '../../lib/evidence';
+import {
+  GeneratedEmailsSchema,
+  HandledResponseSchema,
+  ProspectAnalysisSchema,
+  GeneratedEmails,
+  HandledResponse,
+  ProspectAnalysis,
+  ResponseAnalysis,
+} from '../../lib/llm/schemas';
+import type { ScrapedPage } from '../../lib/scraper';
+import { emptyMetadata, SiteMetadata } from '../../lib/metadata';
+import type { LanguageCode } from '../../lib/language';
+
+/**
+ * Deterministic scoring for evaluation runs: schema checks, evidence grounding and the
+ * email linter. No LLM calls, so the same outputs always score the same.
+ */
+
+export type EvalTask = 'analyze' | 'generate' | 'respond';
+
+export const EVAL_TASKS: EvalTask[] = ['analyze', 'generate', 'respond'];
+
+// A saved scrape: what analyzeProspect would have been given for a real site
+export interface ProspectCase {
+  id: string;
+  company: string;
+  service: string;
+  language?: LanguageCode;
+  pages: ScrapedPage[];
+  metadata?: Partial<SiteMetadata>;
+  // Angle emails are generated for; pinned so email scores don't move with the analysis
+  angle?: { hook: string; evidence: string };
+  expect?: { minAngles?: number };
+}
+
+export interface ReplyCase {
+  id: string;
+  originalEmail: string;
+  prospectResponse: string;
+  angleUsed: string;
+  expect?: {
+    sentiment?: ResponseAnalysis['sentiment'];
+    objectionType?: ResponseAnalysis['objectionType'];
+  };
+}
+
+export interface CaseResult {
+  task: EvalTask;
+  caseId: string;
+  // Produced output that passed the schema; false means the call threw
+  ok: boolean;
+  error?: string;
+  promptVersion?: string;
+  model?: string;
+  durationMs: number;
+  // Numeric scores, averaged across cases in the report
+  metrics: Record<string, number>;
+  // Expectations, reported as pass rates
+  checks: Record<string, boolean>;
+}
+
+export interface EvalRun {
+  label: string;
+  dataset: string;
+  mode: string;
+  startedAt: string;
+  results: CaseResult[];
+}
+
+export interface TaskSummary {
+  cases: number;
+  errors: number;
+  promptVersions: string[];
+  models: string[];
+  meanDurationMs: number;
+  metrics: Record<string, number>;
+  // Share of cases passing each check, 0-1
+  checks: Record<string, number>;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000;
+}
+
+// Saved cases only list the metadata fields they have
+export function prospectMetadata(prospect: ProspectCase): SiteMetadata {
+  return { ...emptyMetadata(), ...prospect.metadata };
+}
+
+export function scoreAnalysis(analysis: ProspectAnalysis, prospect: ProspectCase): Pick<CaseResult, 'metrics' | 'checks'> {
+  const sources = buildEvidenceSources({ pages: prospect.pages, metadata: prospectMetadata(prospect) });
+  const angles = verifyAngles(analysis.angles, sources);
+  const grounded = angles.filter((angle) => angle.grounding.status === 'grounded').length;
+  const ungrounded = angles.filter((angle) => angle.grounding.status === 'ungrounded').length;
+
+  return {
+    metrics: {
+      angles: angles.length,
+      groundingScore: mean(angles.map((angle) => angle.grounding.score)),
+      groundedShare: angles.length > 0 ? grounded / angles.length : 0,
+    },
+    checks: {
+      schema: ProspectAnalysisSchema.safeParse(analysis).success,
+      minAngles: angles.length >= (prospect.expect?.minAngles ?? 1),
+      noUngrounded: ungrounded === 0,
+    },
+  };
+}
+
+export function scoreEmails(
+  emails: GeneratedEmails,
+  hook: string,
+  language?: string
+): Pick<CaseResult, 'metrics' | 'checks'> {
+  const lint = lintGeneratedEmails({ variants: emails.variants, followUps: emails.followUps }, hook, 0, language);
+  const reports = [...lint.variants, ...lint.followUps];
+
+  return {
+    metrics: {
+      variants: emails.variants.length,
+      lintScore: mean(reports.map((report) => report.score)),
+      variantLintScore: mean(lint.variants.map((report) => report.score)),
+      violations: reports.reduce((sum, report) => sum + report.violations.length, 0),
+    },
+    checks: {
+      schema: GeneratedEmailsSchema.safeParse(emails).success,
+      lintPassed: reports.every((report) => report.passed),
+    },
+  };
+}
+
+export function scoreResponse(handled: HandledResponse, reply: ReplyCase): Pick<CaseResult, 'metrics' | 'checks'> {
+  const checks: Record<string, boolean> = { schema: HandledResponseSchema.safeParse(handled).success };
+  if (reply.expect?.sentiment) checks.sentiment = handled.analysis.sentiment === reply.expect.sentiment;
+  if (reply.expect?.objectionType) checks.objectionType = handled.analysis.objectionType === reply.expect.objectionType;
+
+  return {
+    metrics: {
+      replies: handled.replies.length,
+      buyingSignals: handled.analysis.buyingSignals.length,
+    },
+    checks,
+  };
+}
+
+/**
+ * Per-task means and pass rates; failed cases count as errors and are left out of the means
+ */
+export function summarizeRun(run: EvalRun): Partial<Record<EvalTask, TaskSummary>> {
+  const summary: Partial<Record<EvalTask, TaskSummary>> = {};
+
+  for (const task of EVAL_TASKS) {
+    const results = run.results.filter((result) => result.task === task);
+    if (results.length === 0) continue;
+    const passed = results.filter((result) => result.ok);
+
+    const metricNames = Array.from(new Set(passed.flatMap((result) => Object.keys(result.metrics))));
+    const checkNames = Array.from(new Set(passed.flatMap((result) => Object.keys(result.checks))));
+
+    summary[task] = {
+      cases: results.length,
+      errors: results.length - passed.length,
+      promptVersions: Array.from(new Set(passed.map((result) => result.promptVersion).filter(Boolean))),
+      models: Array.from(new Set(passed.map((result) => result.model).filter(Boolean))),
+      meanDurationMs: Math.round(mean(results.map((result) => result.durationMs))),
+      metrics: Object.fromEntries(
+        metricNames.map((name) => [
+          name,
+          mean(passed.filter((result) => name in result.metrics).map((result) => result.metrics[name])),
+        ])
+      ),
+      checks: Object.fromEntries(
+        checkNames.map((name) => {
+          const applicable = passed.filter((result) => name in result.checks);
+          return [name, mean(applicable.map((result) => (result.checks[name] ? 1 : 0)))];
+        })
+      ),
+    };
+  }
+
+  return summary;
+}
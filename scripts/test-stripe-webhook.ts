@@ -6,6 +6,7 @@
 
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import { PLANS, getStripeIds } from '../lib/plans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -58,21 +59,12 @@ async function main() {
       console.log(`   ✅ Using existing customer: ${customerId}`);
     }
 
-    // Step 3: Get products mapping
-    console.log('\n3️⃣  Fetching product mappings...');
-    const { data: products } = await supabase
-      .from('stripe_products')
-      .select('stripe_price_id, stripe_product_id, credit_value');
-
-    if (!products || products.length === 0) {
-      console.error('❌ No products found in stripe_products table.');
-      console.error('   Please run: psql < schema.stripe.sql');
-      process.exit(1);
-    }
-
-    const testProduct = products[0];
-    console.log(`   ✅ Using product: ${testProduct.stripe_product_id}`);
-    console.log(`   📦 Credits: ${testProduct.credit_value}`);
+    // Step 3: Pick a product from the plan catalogue
+    console.log('\n3️⃣  Reading plan catalogue...');
+    const testPlan = PLANS.starter;
+    const testProduct = getStripeIds(testPlan)!;
+    console.log(`   ✅ Using product: ${testProduct.productId}`);
+    console.log(`   📦 Credits: ${testPlan.purchaseCredits}`);
 
     // Step 4: Create payment intent
     console.log('\n4️⃣  Creating test payment intent...');
@@ -82,8 +74,8 @@ async function main() {
       customer: customerId,
       metadata: {
         user_id: testUser.id.toString(),
-        stripe_product_id: testProduct.stripe_product_id,
-        stripe_price_id: testProduct.stripe_price_id,
+        stripe_product_id: testProduct.productId,
+        stripe_price_id: testProduct.priceId,
       },
       payment_method_types: ['card'],
     });